@@ -0,0 +1,34 @@
+import { defineConfig } from "../neon-flow/src/config";
+
+// Branch conventions for the neon-flow CLI. Every setting is optional and
+// falls back to the default shown here, see ../neon-flow/README.md.
+export default defineConfig({
+  branches: {
+    development: ["development", "dev", "develop"],
+    protected: [
+      "main",
+      "master",
+      "development",
+      "dev",
+      "develop",
+      "production",
+      "prod",
+    ],
+  },
+  git: {
+    baseBranch: "main",
+  },
+  ttl: {
+    featureDays: 14,
+  },
+  masking: {
+    // Contacts are real customers, feature branches get fake ones
+    tables: {
+      contacts: { name: "name", email: "email" },
+    },
+  },
+  seed: {
+    // Profile and --seed can be passed as arguments, see scripts/seed.ts
+    command: "bun run db:seed",
+  },
+});
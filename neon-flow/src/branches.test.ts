@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { parseBranchPoint } from "./branches";
+import { UsageError } from "./errors";
+
+const NOW = new Date("2025-01-15T12:00:00Z");
+
+describe("parseBranchPoint", () => {
+  test("reads an LSN, in upper case", () => {
+    expect(parseBranchPoint("0/1a2b3c4d", NOW)).toEqual({
+      parent_lsn: "0/1A2B3C4D",
+    });
+  });
+
+  test("reads a timestamp as ISO in UTC", () => {
+    expect(parseBranchPoint("2025-01-14T09:30:00+02:00", NOW)).toEqual({
+      parent_timestamp: "2025-01-14T07:30:00.000Z",
+    });
+  });
+
+  test("rejects timestamps in the future", () => {
+    expect(() => parseBranchPoint("2025-01-16T00:00:00Z", NOW)).toThrow(
+      "--at 2025-01-16T00:00:00Z is in the future",
+    );
+  });
+
+  test("rejects values that are neither", () => {
+    for (const value of ["yesterday", "0x1A2B", "2025-13-45"]) {
+      expect(() => parseBranchPoint(value, NOW)).toThrow(UsageError);
+    }
+  });
+});
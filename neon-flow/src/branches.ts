@@ -0,0 +1,243 @@
+// Branch naming conventions shared by the commands
+
+import { createHash } from "crypto";
+import type { NeonFlowConfig } from "./config";
+import { ProtectedBranchError, UsageError } from "./errors";
+import type { NeonAnnotation, NeonBranch } from "./types";
+
+export function isProtectedBranch(
+  name: string,
+  config: NeonFlowConfig,
+): boolean {
+  return config.branches.protected
+    .map((branch) => branch.toLowerCase())
+    .includes(name.toLowerCase());
+}
+
+// Checks both the git branch and the Neon branch derived from it
+export function assertNotProtected(
+  gitBranch: string,
+  config: NeonFlowConfig,
+): void {
+  for (const name of [gitBranch, config.branches.name(gitBranch)]) {
+    if (isProtectedBranch(name, config)) {
+      throw new ProtectedBranchError(name, config.branches.protected);
+    }
+  }
+}
+
+// feature init records the git branch a Neon branch was created for in this
+// annotation, since branches.name can map several git branches to one name
+export const GIT_BRANCH_ANNOTATION = "git-branch";
+
+// feature recover records the archive a branch was restored from, feature gc
+// keeps it even though its git branch is usually long gone
+export const RECOVERED_FROM_ANNOTATION = "recovered-from";
+
+export function annotatedGitBranch(
+  branch: NeonBranch,
+  annotations: Record<string, NeonAnnotation>,
+): string | undefined {
+  return annotations[branch.id]?.value[GIT_BRANCH_ANNOTATION];
+}
+
+// The Neon branch feature init created for a git branch: the one annotated
+// with it, or a branch with the derived name and no annotation, created
+// before annotations were recorded
+export function findFeatureBranch(
+  branches: NeonBranch[],
+  annotations: Record<string, NeonAnnotation>,
+  gitBranch: string,
+  config: NeonFlowConfig,
+): NeonBranch | undefined {
+  const name = config.branches.name(gitBranch);
+  return (
+    branches.find(
+      (branch) => annotatedGitBranch(branch, annotations) === gitBranch,
+    ) ??
+    branches.find(
+      (branch) =>
+        branch.name === name && !annotatedGitBranch(branch, annotations),
+    )
+  );
+}
+
+// The derived name, or the first free "<name>-2", "<name>-3", ... when a
+// branch for another git branch already has it
+export function featureBranchName(
+  branches: NeonBranch[],
+  gitBranch: string,
+  config: NeonFlowConfig,
+): string {
+  const name = config.branches.name(gitBranch);
+  const taken = new Set(branches.map((branch) => branch.name));
+  let candidate = name;
+  for (let suffix = 2; taken.has(candidate); suffix++) {
+    candidate = `${name}-${suffix}`;
+  }
+  return candidate;
+}
+
+// Snapshots can't be annotated, so archives carry a hash of the git branch
+// in their name: alice/foo_bar and alice/foo-bar share a derived name
+function gitBranchHash(gitBranch: string): string {
+  return createHash("sha256").update(gitBranch).digest("hex").slice(0, 8);
+}
+
+// Snapshot feature cleanup --archive takes of a feature's Neon branch,
+// <archivePrefix><neon branch name>-<hash of the git branch>
+export function archiveSnapshotName(
+  neonBranchName: string,
+  gitBranch: string,
+  config: NeonFlowConfig,
+): string {
+  return `${config.snapshots.archivePrefix}${neonBranchName}-${gitBranchHash(gitBranch)}`;
+}
+
+// Whether feature recover may restore a snapshot for a git branch
+export function isArchiveOf(
+  snapshotName: string,
+  gitBranch: string,
+  config: NeonFlowConfig,
+): boolean {
+  return (
+    snapshotName.startsWith(config.snapshots.archivePrefix) &&
+    snapshotName.endsWith(`-${gitBranchHash(gitBranch)}`)
+  );
+}
+
+// Pushes a branch's expiration back by ms, counting from now when it has
+// already passed
+export function extendedExpiration(
+  branch: NeonBranch,
+  ms: number,
+  now = new Date(),
+): string {
+  const from = Math.max(
+    branch.expire_at ? new Date(branch.expire_at).getTime() : 0,
+    now.getTime(),
+  );
+  return new Date(from + ms).toISOString();
+}
+
+// Returns the first configured development branch that exists
+export function findDevelopmentBranch(
+  branches: NeonBranch[],
+  config: NeonFlowConfig,
+): NeonBranch | undefined {
+  for (const name of config.branches.development) {
+    const branch = branches.find((b) => b.name === name);
+    if (branch) {
+      return branch;
+    }
+  }
+  return undefined;
+}
+
+// For commands that overwrite rows, such as db seed: refuses protected
+// branches and the branch snapshots are taken from
+export function assertNotProductionOrProtected(
+  branch: NeonBranch,
+  branches: NeonBranch[],
+  config: NeonFlowConfig,
+): void {
+  if (
+    isProtectedBranch(branch.name, config) ||
+    findProductionBranch(branches, config)?.id === branch.id
+  ) {
+    throw new ProtectedBranchError(branch.name, [
+      ...new Set([...config.branches.protected, ...config.branches.production]),
+    ]);
+  }
+}
+
+// Matches a branch by id first, so ids win over branches named like one
+export function findBranch(
+  branches: NeonBranch[],
+  nameOrId: string,
+): NeonBranch | undefined {
+  return (
+    branches.find((branch) => branch.id === nameOrId) ??
+    branches.find((branch) => branch.name === nameOrId)
+  );
+}
+
+export type BranchPoint = { parent_lsn: string } | { parent_timestamp: string };
+
+// Postgres LSNs look like 0/1A2B3C4D
+const LSN_PATTERN = /^[0-9a-f]{1,8}\/[0-9a-f]{1,8}$/i;
+
+// Parses --at: an LSN or any timestamp Date.parse understands, e.g.
+// 2025-01-14T09:30:00Z or "2025-01-14 09:30" in local time
+export function parseBranchPoint(value: string, now = new Date()): BranchPoint {
+  if (LSN_PATTERN.test(value)) {
+    return { parent_lsn: value.toUpperCase() };
+  }
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new UsageError(
+      `Invalid --at value '${value}'. Expected a timestamp such as 2025-01-14T09:30:00Z or an LSN such as 0/1A2B3C4D`,
+    );
+  }
+  if (time > now.getTime()) {
+    throw new UsageError(`--at ${value} is in the future`);
+  }
+
+  return { parent_timestamp: new Date(time).toISOString() };
+}
+
+export function describeBranchPoint(point: BranchPoint): string {
+  return "parent_lsn" in point
+    ? `LSN ${point.parent_lsn}`
+    : new Date(point.parent_timestamp).toLocaleString();
+}
+
+// Looks for the configured production names in order, then the
+// default/primary branch
+export function findProductionBranch(
+  branches: NeonBranch[],
+  config: NeonFlowConfig,
+): NeonBranch | undefined {
+  for (const name of config.branches.production) {
+    const branch = branches.find(
+      (b) => b.name.toLowerCase() === name.toLowerCase(),
+    );
+    if (branch) {
+      return branch;
+    }
+  }
+  return branches.find((b) => b.default || b.primary);
+}
+
+// How branches appear in --json output
+export interface BranchSummary {
+  id: string;
+  name: string;
+  parentId: string | null;
+  expiresAt: string | null;
+}
+
+export function summarizeBranch(branch: NeonBranch): BranchSummary {
+  return {
+    id: branch.id,
+    name: branch.name,
+    parentId: branch.parent_id ?? null,
+    expiresAt: branch.expire_at ?? null,
+  };
+}
+
+export function describeBranchType(branch: NeonBranch): string {
+  return branch.default ? "default" : branch.primary ? "primary" : "";
+}
+
+export function printAvailableBranches(
+  branches: NeonBranch[],
+  log: (line: string) => void = console.log,
+): void {
+  log("Available branches:");
+  for (const branch of branches) {
+    const type = describeBranchType(branch);
+    log(`   • ${branch.name}${type ? ` (${type})` : ""} - ${branch.id}`);
+  }
+}
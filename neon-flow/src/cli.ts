@@ -0,0 +1,167 @@
+#!/usr/bin/env bun
+
+// neon-flow: one CLI for the Neon branch and snapshot workflows
+
+import {
+  type CommandOutput,
+  formatCommandHelp,
+  parseCommandArgs,
+  type Command,
+} from "./command";
+import { dbBack } from "./commands/db-back";
+import { dbMask } from "./commands/db-mask";
+import { dbSeed } from "./commands/db-seed";
+import { featureCleanup } from "./commands/feature-cleanup";
+import { featureExtend } from "./commands/feature-extend";
+import { featureGc } from "./commands/feature-gc";
+import { featureInit } from "./commands/feature-init";
+import { featurePromote } from "./commands/feature-promote";
+import { featureRecover } from "./commands/feature-recover";
+import { featureReset } from "./commands/feature-reset";
+import { restoreProd } from "./commands/restore-prod";
+import { snapshotCreate } from "./commands/snapshot-create";
+import { snapshotTest } from "./commands/snapshot-test";
+import { which } from "./commands/which";
+import {
+  EXIT_CODES,
+  InvalidConfigError,
+  NeonFlowError,
+  UsageError,
+} from "./errors";
+import { loadConfig } from "./load-config";
+
+const BIN_NAME = "neon-flow";
+
+const COMMANDS: Command[] = [
+  featureInit,
+  featureCleanup,
+  featureExtend,
+  featureGc,
+  featureRecover,
+  featureReset,
+  featurePromote,
+  which,
+  snapshotCreate,
+  snapshotTest,
+  restoreProd,
+  dbSeed,
+  dbMask,
+  dbBack,
+];
+
+function formatHelp(): string {
+  const width = Math.max(...COMMANDS.map((command) => command.name.length));
+  return [
+    `Usage: ${BIN_NAME} <command> [options]`,
+    "",
+    "Commands:",
+    ...COMMANDS.map(
+      (command) => `  ${command.name.padEnd(width)}  ${command.summary}`,
+    ),
+    "",
+    `Run '${BIN_NAME} <command> --help' for the options of a command.`,
+  ].join("\n");
+}
+
+// Matches the longest command name, so "feature init" wins over "feature"
+function findCommand(
+  argv: string[],
+): { command: Command; rest: string[] } | undefined {
+  const matches = COMMANDS.filter((command) => {
+    const words = command.name.split(" ");
+    return words.every((word, index) => argv[index] === word);
+  }).sort((a, b) => b.name.length - a.name.length);
+
+  const command = matches[0];
+  return command
+    ? { command, rest: argv.slice(command.name.split(" ").length) }
+    : undefined;
+}
+
+async function main(argv: string[]): Promise<number> {
+  if (argv.length === 0 || argv[0] === "--help" || argv[0] === "-h") {
+    console.log(formatHelp());
+    return argv.length === 0 ? EXIT_CODES.usage : EXIT_CODES.success;
+  }
+
+  const match = findCommand(argv);
+  if (!match) {
+    console.error(`❌ Unknown command: ${argv.join(" ")}\n`);
+    console.error(formatHelp());
+    return EXIT_CODES.usage;
+  }
+
+  const { command, rest } = match;
+  // Checked before parsing so invalid flags are reported as JSON too.
+  // Arguments after -- are positionals, e.g. for db seed's seed command
+  const end = rest.indexOf("--");
+  const json = (end === -1 ? rest : rest.slice(0, end)).includes("--json");
+  const log = console.log;
+
+  if (json) {
+    // Keeps stdout for the JSON output
+    console.log = console.error;
+  }
+
+  try {
+    const args = parseCommandArgs(command, rest);
+    if (args.help) {
+      log(formatCommandHelp(command, BIN_NAME));
+      return EXIT_CODES.success;
+    }
+
+    const result = await command.run({ ...args, config: await loadConfig() });
+    if (json) {
+      printJson(log, {
+        ok: true,
+        command: command.name,
+        result: result ?? null,
+      });
+    }
+    return EXIT_CODES.success;
+  } catch (error) {
+    const exitCode =
+      error instanceof NeonFlowError ? error.exitCode : EXIT_CODES.failure;
+
+    if (json) {
+      printJson(log, {
+        ok: false,
+        command: command.name,
+        error: {
+          name: error instanceof Error ? error.name : "Error",
+          message: error instanceof Error ? error.message : String(error),
+          exitCode,
+        },
+      });
+    }
+
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}\n`);
+      console.error(formatCommandHelp(command, BIN_NAME));
+      return exitCode;
+    }
+
+    console.error(
+      `\n❌ Error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    // The command never ran, so its hints would not help
+    if (
+      !(error instanceof InvalidConfigError) &&
+      command.troubleshooting?.length
+    ) {
+      console.error("\n🔍 Troubleshooting:");
+      for (const hint of command.troubleshooting) {
+        console.error(`   • ${hint}`);
+      }
+    }
+    return exitCode;
+  } finally {
+    console.log = log;
+  }
+}
+
+function printJson(log: typeof console.log, output: CommandOutput): void {
+  log(JSON.stringify(output, null, 2));
+}
+
+process.exit(await main(process.argv.slice(2)));
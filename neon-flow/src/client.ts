@@ -0,0 +1,314 @@
+// Typed client for the Neon API v2
+// Shares headers, JSON handling and error handling across all commands
+
+import {
+  MissingEnvironmentVariableError,
+  createNeonApiRequestError,
+} from "./errors";
+import { paginate, type PaginationParams } from "./pagination";
+import { DEFAULT_RETRY_OPTIONS, withRetry, type RetryOptions } from "./retry";
+import type {
+  CreateBranchRequest,
+  CreateBranchResponse,
+  CreateSnapshotRequest,
+  CreateSnapshotResponse,
+  DeleteBranchResponse,
+  DeleteSnapshotResponse,
+  GetBranchResponse,
+  GetConnectionUriResponse,
+  GetEndpointResponse,
+  GetOperationResponse,
+  ListBranchesResponse,
+  ListDatabasesResponse,
+  ListEndpointsResponse,
+  ListOperationsResponse,
+  ListRolesResponse,
+  ListSnapshotsResponse,
+  NeonBranch,
+  NeonOperation,
+  NeonSnapshot,
+  RestoreBranchRequest,
+  RestoreBranchResponse,
+  RestoreSnapshotRequest,
+  RestoreSnapshotResponse,
+  RevealRolePasswordResponse,
+  UpdateBranchRequest,
+  UpdateBranchResponse,
+} from "./types";
+
+export const DEFAULT_NEON_API_BASE_URL = "https://console.neon.tech/api/v2";
+
+export interface NeonClientOptions {
+  apiKey: string;
+  projectId: string;
+  baseUrl?: string;
+  retry?: Partial<RetryOptions>;
+}
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+interface RequestOptions {
+  query?: QueryParams;
+  body?: unknown;
+}
+
+export interface ConnectionUriOptions {
+  branchId: string;
+  databaseName: string;
+  roleName: string;
+  pooled?: boolean;
+  // Defaults to the branch's read-write endpoint
+  endpointId?: string;
+}
+
+export function createNeonClient(options: NeonClientOptions) {
+  const baseUrl = (options.baseUrl ?? DEFAULT_NEON_API_BASE_URL).replace(
+    /\/$/,
+    "",
+  );
+  const project = `/projects/${options.projectId}`;
+  const retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+
+  async function request<T>(
+    method: string,
+    path: string,
+    { query, body }: RequestOptions = {},
+  ): Promise<T> {
+    const url = new URL(`${baseUrl}${path}`);
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      Authorization: `Bearer ${options.apiKey}`,
+    };
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    return withRetry(
+      async () => {
+        const response = await fetch(url, {
+          method,
+          headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+          throw await createNeonApiRequestError(method, path, response);
+        }
+
+        return (await response.json()) as T;
+      },
+      retry,
+      method !== "POST",
+    );
+  }
+
+  const listBranches = (params: PaginationParams = {}) =>
+    request<ListBranchesResponse>("GET", `${project}/branches`, {
+      query: { ...params },
+    });
+  const listSnapshots = (params: PaginationParams = {}) =>
+    request<ListSnapshotsResponse>("GET", `${project}/snapshots`, {
+      query: { ...params },
+    });
+
+  const listOperations = (params: PaginationParams = {}) =>
+    request<ListOperationsResponse>("GET", `${project}/operations`, {
+      query: { ...params },
+    });
+
+  async function* iterateBranches(): AsyncGenerator<NeonBranch> {
+    for await (const page of paginate(listBranches, (p) => p.branches.length)) {
+      yield* page.branches;
+    }
+  }
+
+  async function* iterateOperations(): AsyncGenerator<NeonOperation> {
+    for await (const page of paginate(
+      listOperations,
+      (p) => p.operations.length,
+    )) {
+      yield* page.operations;
+    }
+  }
+
+  async function* iterateSnapshots(): AsyncGenerator<NeonSnapshot> {
+    for await (const page of paginate(
+      listSnapshots,
+      (p) => p.snapshots.length,
+    )) {
+      yield* page.snapshots;
+    }
+  }
+
+  return {
+    projectId: options.projectId,
+
+    branches: {
+      // Single page, see iterate() / listAll() for every branch
+      list: listBranches,
+      iterate: iterateBranches,
+      listAll: async (): Promise<
+        Pick<ListBranchesResponse, "branches" | "annotations">
+      > => {
+        const branches: NeonBranch[] = [];
+        const annotations: ListBranchesResponse["annotations"] = {};
+        for await (const page of paginate(
+          listBranches,
+          (p) => p.branches.length,
+        )) {
+          branches.push(...page.branches);
+          Object.assign(annotations, page.annotations);
+        }
+        return { branches, annotations };
+      },
+      get: (branchId: string) =>
+        request<GetBranchResponse>("GET", `${project}/branches/${branchId}`),
+      create: (payload: CreateBranchRequest) =>
+        request<CreateBranchResponse>("POST", `${project}/branches`, {
+          body: payload,
+        }),
+      update: (branchId: string, payload: UpdateBranchRequest) =>
+        request<UpdateBranchResponse>(
+          "PATCH",
+          `${project}/branches/${branchId}`,
+          { body: payload },
+        ),
+      delete: (branchId: string) =>
+        request<DeleteBranchResponse>(
+          "DELETE",
+          `${project}/branches/${branchId}`,
+        ),
+      restore: (branchId: string, payload: RestoreBranchRequest) =>
+        request<RestoreBranchResponse>(
+          "POST",
+          `${project}/branches/${branchId}/restore`,
+          { body: payload },
+        ),
+    },
+
+    // The endpoints API takes no cursor, every list returns all endpoints
+    endpoints: {
+      list: () => request<ListEndpointsResponse>("GET", `${project}/endpoints`),
+      listForBranch: (branchId: string) =>
+        request<ListEndpointsResponse>(
+          "GET",
+          `${project}/branches/${branchId}/endpoints`,
+        ),
+      get: (endpointId: string) =>
+        request<GetEndpointResponse>(
+          "GET",
+          `${project}/endpoints/${endpointId}`,
+        ),
+    },
+
+    snapshots: {
+      list: listSnapshots,
+      iterate: iterateSnapshots,
+      listAll: async (): Promise<Pick<ListSnapshotsResponse, "snapshots">> => ({
+        snapshots: await Array.fromAsync(iterateSnapshots()),
+      }),
+      // The snapshot API takes its parameters as query params, not as a body
+      create: (branchId: string, payload: CreateSnapshotRequest) =>
+        request<CreateSnapshotResponse>(
+          "POST",
+          `${project}/branches/${branchId}/snapshot`,
+          { query: { ...payload } },
+        ),
+      restore: (snapshotId: string, payload: RestoreSnapshotRequest) =>
+        request<RestoreSnapshotResponse>(
+          "POST",
+          `${project}/snapshots/${snapshotId}/restore`,
+          { body: payload },
+        ),
+      delete: (snapshotId: string) =>
+        request<DeleteSnapshotResponse>(
+          "DELETE",
+          `${project}/snapshots/${snapshotId}`,
+        ),
+    },
+
+    operations: {
+      // Single page, see iterate() for every operation
+      list: listOperations,
+      iterate: iterateOperations,
+      get: (operationId: string) =>
+        request<GetOperationResponse>(
+          "GET",
+          `${project}/operations/${operationId}`,
+        ),
+    },
+
+    roles: {
+      list: (branchId: string) =>
+        request<ListRolesResponse>(
+          "GET",
+          `${project}/branches/${branchId}/roles`,
+        ),
+      revealPassword: (branchId: string, roleName: string) =>
+        request<RevealRolePasswordResponse>(
+          "GET",
+          `${project}/branches/${branchId}/roles/${roleName}/reveal_password`,
+        ),
+    },
+
+    databases: {
+      list: (branchId: string) =>
+        request<ListDatabasesResponse>(
+          "GET",
+          `${project}/branches/${branchId}/databases`,
+        ),
+    },
+
+    connectionUri: (uriOptions: ConnectionUriOptions) =>
+      request<GetConnectionUriResponse>("GET", `${project}/connection_uri`, {
+        query: {
+          branch_id: uriOptions.branchId,
+          database_name: uriOptions.databaseName,
+          role_name: uriOptions.roleName,
+          pooled: uriOptions.pooled,
+          endpoint_id: uriOptions.endpointId,
+        },
+      }),
+  };
+}
+
+export type NeonClient = ReturnType<typeof createNeonClient>;
+
+// Builds a client from NEON_API_KEY and NEON_PROJECT_ID,
+// NEON_API_BASE_URL optionally points it at another API (e.g. the fake server)
+// and NEON_API_MAX_RETRIES overrides the number of retries
+export function createNeonClientFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): NeonClient {
+  const apiKey = env.NEON_API_KEY;
+  const projectId = env.NEON_PROJECT_ID;
+
+  if (!apiKey) {
+    throw new MissingEnvironmentVariableError(
+      "NEON_API_KEY",
+      "Get your API key from: https://console.neon.tech/app/settings/api-keys",
+    );
+  }
+
+  if (!projectId) {
+    throw new MissingEnvironmentVariableError(
+      "NEON_PROJECT_ID",
+      "Find your project ID in the Neon Console Settings page",
+    );
+  }
+
+  const retries = Number(env.NEON_API_MAX_RETRIES || Number.NaN);
+
+  return createNeonClient({
+    apiKey,
+    projectId,
+    baseUrl: env.NEON_API_BASE_URL || undefined,
+    retry: Number.isInteger(retries) && retries >= 0 ? { retries } : undefined,
+  });
+}
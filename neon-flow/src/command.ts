@@ -0,0 +1,151 @@
+// Shared definition, flag parsing and help output for neon-flow commands
+
+import { parseArgs } from "node:util";
+import type { NeonFlowConfig } from "./config";
+import { UsageError } from "./errors";
+
+export interface OptionSpec {
+  type: "string" | "boolean";
+  short?: string;
+  description: string;
+  // Placeholder shown in help output for string options, e.g. "<name>"
+  valueName?: string;
+}
+
+type OptionValues<Options extends Record<string, OptionSpec>> = {
+  [Name in keyof Options]?: Options[Name]["type"] extends "boolean"
+    ? boolean
+    : string;
+};
+
+export interface CommandArgs<Options extends Record<string, OptionSpec>> {
+  positionals: string[];
+  values: OptionValues<Options>;
+  // The project's neon-flow.config.ts merged over the defaults
+  config: NeonFlowConfig;
+}
+
+export interface Command<
+  Options extends Record<string, OptionSpec> = Record<string, OptionSpec>,
+  Result = unknown,
+> {
+  // Subcommand path, e.g. "feature init"
+  name: string;
+  summary: string;
+  // Arguments shown after the command name in the usage line
+  arguments?: string;
+  description?: string[];
+  options: Options;
+  examples?: string[];
+  // Printed when the command fails
+  troubleshooting?: string[];
+  // The result is printed as the "result" of the --json output. A method,
+  // so commands with their own options fit in a Command[]
+  run(args: CommandArgs<Options>): Promise<Result>;
+}
+
+export function defineCommand<
+  const Options extends Record<string, OptionSpec>,
+  Result,
+>(command: Command<Options, Result>): Command<Options, Result> {
+  return command;
+}
+
+// What --json prints on stdout, exactly one object per run
+export type CommandOutput<Result = unknown> =
+  | { ok: true; command: string; result: Result }
+  | {
+      ok: false;
+      command: string;
+      error: { name: string; message: string; exitCode: number };
+    };
+
+// Accepted by every command
+const BUILTIN_OPTIONS: Record<string, OptionSpec> = {
+  json: {
+    type: "boolean",
+    description:
+      "Print the result as JSON on stdout, progress messages go to stderr",
+  },
+  help: {
+    type: "boolean",
+    short: "h",
+    description: "Show help for this command",
+  },
+};
+
+export function parseCommandArgs<Options extends Record<string, OptionSpec>>(
+  command: Command<Options>,
+  argv: string[],
+): Omit<CommandArgs<Options>, "config"> & { help: boolean; json: boolean } {
+  const options = { ...command.options, ...BUILTIN_OPTIONS };
+
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      options: Object.fromEntries(
+        Object.entries(options).map(([name, spec]) => [
+          name,
+          // parseArgs rejects an explicit short: undefined
+          spec.short
+            ? { type: spec.type, short: spec.short }
+            : { type: spec.type },
+        ]),
+      ),
+      allowPositionals: true,
+      strict: true,
+    });
+    const { help, json, ...rest } = values;
+
+    return {
+      positionals,
+      values: rest as OptionValues<Options>,
+      help: help === true,
+      json: json === true,
+    };
+  } catch (error) {
+    throw new UsageError(
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+function optionLabel(name: string, spec: OptionSpec): string {
+  const flag = `${spec.short ? `-${spec.short}, ` : "    "}--${name}`;
+  return spec.type === "string"
+    ? `${flag} ${spec.valueName ?? "<value>"}`
+    : flag;
+}
+
+export function formatCommandHelp(command: Command, binName: string): string {
+  const options = { ...command.options, ...BUILTIN_OPTIONS };
+  const labels = Object.entries(options).map(
+    ([name, spec]) => [optionLabel(name, spec), spec.description] as const,
+  );
+  const width = Math.max(...labels.map(([label]) => label.length));
+
+  const lines = [
+    `Usage: ${binName} ${command.name}${command.arguments ? ` ${command.arguments}` : ""}`,
+    "",
+    command.summary,
+  ];
+  if (command.description?.length) {
+    lines.push("", ...command.description);
+  }
+  lines.push(
+    "",
+    "Options:",
+    ...labels.map(
+      ([label, description]) => `  ${label.padEnd(width)}  ${description}`,
+    ),
+  );
+  if (command.examples?.length) {
+    lines.push(
+      "",
+      "Examples:",
+      ...command.examples.map((example) => `  ${example}`),
+    );
+  }
+
+  return lines.join("\n");
+}
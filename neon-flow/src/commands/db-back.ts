@@ -0,0 +1,102 @@
+import { createNeonClientFromEnv } from "../client";
+import { defineCommand } from "../command";
+import { getEnvValue, readEnvFile } from "../env-file";
+import { EXIT_CODES, NeonFlowError } from "../errors";
+import {
+  JOURNAL_FILE_NAME,
+  findPreviousConnection,
+  readJournal,
+} from "../journal";
+import { DRY_RUN_OPTION, createPlan, type DryRunResult } from "../plan";
+
+export interface DbBackResult {
+  dryRun: false;
+  // The Neon branch DATABASE_URL points at again, null when unknown
+  branch: string | null;
+  host: string;
+  // When DATABASE_URL left it
+  changedAt: string;
+  // Earlier connections passed over because their branch was deleted
+  skipped: string[];
+}
+
+export const dbBack = defineCommand({
+  name: "db back",
+  summary:
+    "Point DATABASE_URL back at the connection it had before the last change.",
+  description: [
+    `Every command that changes DATABASE_URL records the previous value in ${JOURNAL_FILE_NAME} next to .env.`,
+    "db back restores it, along with READ_DATABASE_URL, and running it again goes further back.",
+    "Connections to Neon branches that were deleted since are skipped.",
+  ],
+  options: {
+    "dry-run": DRY_RUN_OPTION,
+  },
+  examples: ["neon-flow db back", "neon-flow db back --dry-run"],
+  troubleshooting: [
+    "Ensure NEON_API_KEY and NEON_PROJECT_ID are set",
+    `Check that ${JOURNAL_FILE_NAME} exists next to .env`,
+  ],
+
+  async run({ values }): Promise<DbBackResult | DryRunResult> {
+    const plan = createPlan(values["dry-run"] === true);
+    const journal = readJournal();
+    const neon = createNeonClientFromEnv();
+
+    // Step 1: Find the newest connection whose branch still exists
+    console.log(`🔍 Reading ${JOURNAL_FILE_NAME}...`);
+    const { branches } = await neon.branches.listAll();
+    const isGone = (name: string) =>
+      !branches.some((branch) => branch.name === name);
+    const previous = findPreviousConnection(journal, isGone);
+
+    if (!previous) {
+      throw new NeonFlowError(
+        `No earlier DATABASE_URL to go back to in ${JOURNAL_FILE_NAME}`,
+        EXIT_CODES.notFound,
+      );
+    }
+
+    const skipped = journal
+      .slice(previous.index + 1)
+      .flatMap(({ fromBranch }) =>
+        fromBranch && isGone(fromBranch) ? [fromBranch] : [],
+      );
+    for (const name of skipped) {
+      console.log(`   ⏭️  Skipping ${name}, the branch was deleted`);
+    }
+
+    const { entry } = previous;
+    const last = journal[journal.length - 1];
+    if (getEnvValue(readEnvFile(), "DATABASE_URL") !== last.databaseUrl) {
+      console.warn(
+        `⚠️  DATABASE_URL was changed by hand since ${new Date(last.changedAt).toLocaleString()}, that value isn't kept`,
+      );
+    }
+
+    // Step 2: Restore it and drop the newer entries
+    const label = entry.fromBranch ?? "the previous connection";
+    console.log(`🔄 Switching DATABASE_URL back to ${label}...`);
+    plan.updateEnvFile(
+      { READ_DATABASE_URL: null, ...entry.previous },
+      { rewindTo: previous.index },
+    );
+
+    if (plan.dryRun) {
+      return plan.finish();
+    }
+
+    const host = new URL(previous.databaseUrl).hostname;
+    console.log(
+      `✅ DATABASE_URL points at ${label} (${host}) again, as before ${new Date(entry.changedAt).toLocaleString()}`,
+    );
+
+    return {
+      dryRun: false,
+      branch: entry.fromBranch,
+      host,
+      changedAt: entry.changedAt,
+      skipped,
+    };
+  },
+});
@@ -0,0 +1,105 @@
+import {
+  assertNotProductionOrProtected,
+  findBranch,
+  printAvailableBranches,
+  summarizeBranch,
+  type BranchSummary,
+} from "../branches";
+import { createNeonClientFromEnv } from "../client";
+import { defineCommand } from "../command";
+import { branchDatabaseUrl } from "../connection";
+import { BranchNotFoundError, ConfigError, UsageError } from "../errors";
+import { countMaskedRows, hasMaskingRules } from "../masking";
+import { DRY_RUN_OPTION, createPlan, type DryRunResult } from "../plan";
+
+export interface DbMaskResult {
+  dryRun: false;
+  branch: BranchSummary;
+  // Rows rewritten per table
+  masked: Record<string, number>;
+}
+
+export const dbMask = defineCommand({
+  name: "db mask",
+  arguments: "<branch>",
+  summary:
+    "Rewrite the columns in masking.tables with fake values on a Neon branch.",
+  description: [
+    "feature init and snapshot test already mask the branches they create, this masks any other branch.",
+    "Masking replaces data, so protected branches and the production branch are refused.",
+  ],
+  options: {
+    "dry-run": DRY_RUN_OPTION,
+  },
+  examples: [
+    "neon-flow db mask andrelandgraf-feature-name",
+    "neon-flow db mask br-curly-wave-af4i4oeu --dry-run",
+  ],
+  troubleshooting: [
+    "Ensure NEON_API_KEY and NEON_PROJECT_ID are set",
+    "Check that masking.tables in neon-flow.config.ts matches the branch's schema",
+    "Verify the branch's compute endpoint is running",
+  ],
+
+  async run({
+    positionals,
+    values,
+    config,
+  }): Promise<DbMaskResult | DryRunResult> {
+    const branchName = positionals[0];
+    if (!branchName) {
+      throw new UsageError("Please provide the name or id of a Neon branch");
+    }
+    if (!hasMaskingRules(config.masking)) {
+      throw new ConfigError(
+        'db mask needs masking.tables in neon-flow.config.ts, e.g. masking: { tables: { contacts: { email: "email" } } }',
+      );
+    }
+
+    const plan = createPlan(values["dry-run"] === true);
+    const neon = createNeonClientFromEnv();
+
+    // Step 1: Find the branch and make sure it may be overwritten
+    console.log(`🔍 Finding database branch '${branchName}'...`);
+    const { branches } = await neon.branches.listAll();
+    const branch = findBranch(branches, branchName);
+
+    if (!branch) {
+      printAvailableBranches(branches, console.error);
+      throw new BranchNotFoundError(
+        `Branch not found: no branch with the name or id '${branchName}'.`,
+        branchName,
+      );
+    }
+
+    assertNotProductionOrProtected(branch, branches, config);
+    console.log(`✅ Found branch: ${branch.name} (${branch.id})`);
+
+    // Step 2: Get the branch's pooled connection string
+    const databaseUrl = await branchDatabaseUrl(neon, branch.id);
+    if (!databaseUrl) {
+      throw new BranchNotFoundError(
+        `Branch '${branch.name}' has no database to mask`,
+        branch.name,
+      );
+    }
+
+    // Step 3: Rewrite the configured columns
+    console.log("🎭 Masking personal data...");
+    const masked = await plan.mask(branch.name, databaseUrl, config.masking);
+
+    if (!masked) {
+      return plan.finish();
+    }
+
+    console.log(
+      `✅ Masked ${countMaskedRows(masked)} row(s) on '${branch.name}'`,
+    );
+
+    return {
+      dryRun: false,
+      branch: summarizeBranch(branch),
+      masked,
+    };
+  },
+});
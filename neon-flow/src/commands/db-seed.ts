@@ -0,0 +1,107 @@
+import {
+  assertNotProductionOrProtected,
+  findBranch,
+  printAvailableBranches,
+  summarizeBranch,
+  type BranchSummary,
+} from "../branches";
+import { createNeonClientFromEnv } from "../client";
+import { defineCommand } from "../command";
+import { branchDatabaseUrl } from "../connection";
+import { BranchNotFoundError, ConfigError, UsageError } from "../errors";
+import { DRY_RUN_OPTION, createPlan, type DryRunResult } from "../plan";
+import { shellQuote } from "../shell";
+
+export interface DbSeedResult {
+  dryRun: false;
+  branch: BranchSummary;
+  // seed.command with the extra arguments appended
+  command: string;
+}
+
+export const dbSeed = defineCommand({
+  name: "db seed",
+  arguments: "<branch> [-- seed-args...]",
+  summary: "Run seed.command from neon-flow.config.ts against any Neon branch.",
+  description: [
+    "DATABASE_URL is set to the branch's pooled connection string for the command only, .env is not changed.",
+    "Arguments after -- are passed on to the command, e.g. a seed profile.",
+    "Seeding replaces data, so protected branches and the production branch are refused.",
+  ],
+  options: {
+    "dry-run": DRY_RUN_OPTION,
+  },
+  examples: [
+    "neon-flow db seed andrelandgraf-feature-name",
+    "neon-flow db seed andrelandgraf-feature-name -- 10k",
+    "neon-flow db seed br-curly-wave-af4i4oeu -- demo --seed 7",
+  ],
+  troubleshooting: [
+    "Ensure NEON_API_KEY and NEON_PROJECT_ID are set",
+    "Check that seed.command is set in neon-flow.config.ts",
+    "Run the seed command on its own to see its errors",
+  ],
+
+  async run({
+    positionals,
+    values,
+    config,
+  }): Promise<DbSeedResult | DryRunResult> {
+    const [branchName, ...seedArgs] = positionals;
+    if (!branchName) {
+      throw new UsageError("Please provide the name or id of a Neon branch");
+    }
+    if (!config.seed.command) {
+      throw new ConfigError(
+        'db seed needs seed.command in neon-flow.config.ts, e.g. seed: { command: "bun run db:seed" }',
+      );
+    }
+
+    const plan = createPlan(values["dry-run"] === true);
+    const command = [config.seed.command, ...seedArgs.map(shellQuote)].join(
+      " ",
+    );
+    const neon = createNeonClientFromEnv();
+
+    // Step 1: Find the branch and make sure it may be overwritten
+    console.log(`🔍 Finding database branch '${branchName}'...`);
+    const { branches } = await neon.branches.listAll();
+    const branch = findBranch(branches, branchName);
+
+    if (!branch) {
+      printAvailableBranches(branches, console.error);
+      throw new BranchNotFoundError(
+        `Branch not found: no branch with the name or id '${branchName}'.`,
+        branchName,
+      );
+    }
+
+    assertNotProductionOrProtected(branch, branches, config);
+    console.log(`✅ Found branch: ${branch.name} (${branch.id})`);
+
+    // Step 2: Get the branch's pooled connection string
+    const uri = await branchDatabaseUrl(neon, branch.id);
+    if (!uri) {
+      throw new BranchNotFoundError(
+        `Branch '${branch.name}' has no database to seed`,
+        branch.name,
+      );
+    }
+
+    // Step 3: Run the seed command against it
+    console.log(`🌱 Seeding database branch: ${command}`);
+    await plan.run(command, { DATABASE_URL: uri });
+
+    if (plan.dryRun) {
+      return plan.finish();
+    }
+
+    console.log(`✅ Database branch '${branch.name}' seeded`);
+
+    return {
+      dryRun: false,
+      branch: summarizeBranch(branch),
+      command,
+    };
+  },
+});
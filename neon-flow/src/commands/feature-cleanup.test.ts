@@ -0,0 +1,132 @@
+import { describe, expect, test } from "bun:test";
+import { archiveSnapshotName } from "../branches";
+import { DEFAULT_CONFIG } from "../config";
+import { withProject } from "../test-project";
+import type { FeatureCleanupResult } from "./feature-cleanup";
+
+describe("feature cleanup", () => {
+  test(
+    "deletes both branches and points .env back at development",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/search");
+
+      const result = await project.result<FeatureCleanupResult>(
+        "feature",
+        "cleanup",
+      );
+
+      expect(result.deletedBranch?.name).toBe("alice-search");
+      expect(result.gitBranchDeleted).toBe(true);
+      expect(project.branchNamed("alice-search")).toBeUndefined();
+      expect(project.envValue("DATABASE_URL")).toBe(
+        project.envValue("DEVELOPMENT_DATABASE_URL"),
+      );
+      expect(await project.git("branch", "--show-current")).toBe("main");
+      expect(await project.git("branch", "--list", "alice/search")).toBe("");
+    }),
+  );
+
+  test(
+    "switches back to the connection before the feature",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/search");
+      await project.result("feature", "init", "alice/filters");
+
+      const { output, log } = await project.run<FeatureCleanupResult>(
+        "feature",
+        "cleanup",
+        "alice/filters",
+      );
+
+      expect(output.ok && output.result.envRestoredFrom).toBe("journal");
+      expect(
+        project.branchOfDatabaseUrl(project.envValue("DATABASE_URL"))?.name,
+      ).toBe("alice-search");
+      expect(log).toContain("Current DB:     alice-search (.env.journal.json)");
+      // The switch to alice-filters was rewound
+      expect(project.journal().at(-1)?.toBranch).toBe("alice-search");
+    }),
+  );
+
+  test(
+    "leaves .env alone when DATABASE_URL points at another feature",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/search");
+      await project.result("feature", "init", "alice/filters");
+
+      const { output, log } = await project.run<FeatureCleanupResult>(
+        "feature",
+        "cleanup",
+        "alice/search",
+      );
+
+      expect(output.ok && output.result.deletedBranch?.name).toBe(
+        "alice-search",
+      );
+      expect(output.ok && output.result.envUpdated).toBe(false);
+      expect(
+        project.branchOfDatabaseUrl(project.envValue("DATABASE_URL"))?.name,
+      ).toBe("alice-filters");
+      expect(log).toContain("Current DB:     alice-filters (unchanged)");
+    }),
+  );
+
+  test(
+    "deletes the Neon branch of the given git branch when names collide",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/foo_bar");
+      await project.git("checkout", "--quiet", "main");
+      await project.result("feature", "init", "alice/foo-bar");
+
+      const result = await project.result<FeatureCleanupResult>(
+        "feature",
+        "cleanup",
+        "alice/foo-bar",
+      );
+
+      expect(result.deletedBranch?.name).toBe("alice-foo-bar-2");
+      expect(project.branchNamed("alice-foo-bar-2")).toBeUndefined();
+      expect(project.branchNamed("alice-foo-bar")).toBeDefined();
+    }),
+  );
+
+  test(
+    "snapshots the branch before deleting it with --archive",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/search");
+      const branchId = project.branchNamed("alice-search")!.id;
+
+      const result = await project.result<FeatureCleanupResult>(
+        "feature",
+        "cleanup",
+        "--archive",
+      );
+
+      const name = archiveSnapshotName(
+        "alice-search",
+        "alice/search",
+        DEFAULT_CONFIG,
+      );
+      expect(result.archive?.name).toBe(name);
+      const snapshot = project.fake.state.snapshots.get(result.archive!.id);
+      expect(snapshot?.name).toBe(name);
+      expect(snapshot?.source_branch_id).toBe(branchId);
+      expect(snapshot?.expires_at).toBe(result.archive!.expiresAt);
+      expect(project.branchNamed("alice-search")).toBeUndefined();
+    }),
+  );
+
+  test(
+    "fails with notFound when neither branch exists",
+    withProject(async (project) => {
+      const { exitCode, output } = await project.run(
+        "feature",
+        "cleanup",
+        "alice/search",
+      );
+
+      expect(exitCode).toBe(5);
+      expect(!output.ok && output.error.name).toBe("BranchNotFoundError");
+    }),
+  );
+});
@@ -0,0 +1,401 @@
+import {
+  annotatedGitBranch,
+  archiveSnapshotName,
+  assertNotProtected,
+  findDevelopmentBranch,
+  findFeatureBranch,
+  isProtectedBranch,
+  printAvailableBranches,
+  summarizeBranch,
+  type BranchSummary,
+} from "../branches";
+import { createNeonClientFromEnv } from "../client";
+import { defineCommand } from "../command";
+import {
+  extractEndpointIdFromHost,
+  extractHostFromDatabaseUrl,
+  findEndpointForDatabaseUrl,
+} from "../connection";
+import { daysToMs } from "../duration";
+import { getEnvValue, readEnvFile } from "../env-file";
+import { BranchNotFoundError, UsageError } from "../errors";
+import { currentGitBranch, findWorktree, repositoryRoot } from "../git";
+import {
+  JOURNAL_FILE_NAME,
+  findPreviousConnection,
+  readJournal,
+} from "../journal";
+import { waitForOperations } from "../operations";
+import { DRY_RUN_OPTION, createPlan, type DryRunResult } from "../plan";
+
+export interface FeatureCleanupResult {
+  dryRun: false;
+  gitBranch: string;
+  // The deleted Neon branch, null when it did not exist
+  deletedBranch: BranchSummary | null;
+  developmentBranch: BranchSummary | null;
+  envUpdated: boolean;
+  // Where DATABASE_URL came from: the connection before the feature in
+  // .env.journal.json, or DEVELOPMENT_DATABASE_URL. null when not updated
+  envRestoredFrom: "journal" | "DEVELOPMENT_DATABASE_URL" | null;
+  gitBranchDeleted: boolean;
+  // Path of the removed worktree, null when the branch had none
+  worktreeRemoved: string | null;
+  // The snapshot taken with --archive, feature recover restores it
+  archive: { id: string; name: string; expiresAt: string } | null;
+}
+
+export const featureCleanup = defineCommand({
+  name: "feature cleanup",
+  arguments: "[branch-name]",
+  summary:
+    "Delete a feature's Neon database branch and git branch and point DATABASE_URL back at the previous connection.",
+  description: [
+    "Without a branch name the current git branch is used.",
+    "DATABASE_URL goes back to the connection used before the feature, recorded in .env.journal.json,",
+    "or to the value of DEVELOPMENT_DATABASE_URL in .env when the journal has none that still exists.",
+    "DATABASE_URL is left alone when it points at another branch, e.g. a feature you're working on.",
+    "A worktree created with feature init --worktree is removed along with its .env.",
+    "--archive snapshots the Neon branch first, as <snapshots.archivePrefix><neon branch name>-<git branch hash> for ttl.archiveDays (default 30) days,",
+    "so feature recover can bring it back.",
+    "Exits with 5 when neither the Neon branch nor the git branch exists.",
+  ],
+  options: {
+    force: {
+      type: "boolean",
+      short: "f",
+      description:
+        "Remove the feature's worktree even when it has uncommitted changes",
+    },
+    archive: {
+      type: "boolean",
+      description:
+        "Snapshot the Neon branch before deleting it, restore it with feature recover",
+    },
+    "dry-run": DRY_RUN_OPTION,
+  },
+  examples: [
+    "neon-flow feature cleanup andrelandgraf/feature-name",
+    "neon-flow feature cleanup andrelandgraf/feature-name --archive",
+    "neon-flow feature cleanup",
+    "neon-flow feature cleanup --dry-run",
+    "neon-flow feature cleanup andrelandgraf/feature-name --force",
+  ],
+  troubleshooting: [
+    "Ensure NEON_API_KEY and NEON_PROJECT_ID are set",
+    "Check that you have access to the Neon project",
+    "Verify the branch name is correct",
+    "Make sure development branch exists",
+  ],
+
+  async run({
+    positionals,
+    values,
+    config,
+  }): Promise<FeatureCleanupResult | DryRunResult> {
+    const plan = createPlan(values["dry-run"] === true);
+    const baseBranch = config.git.baseBranch;
+    let branchName = positionals[0];
+
+    if (!branchName) {
+      const currentBranch = await currentGitBranch();
+
+      if (!currentBranch || isProtectedBranch(currentBranch, config)) {
+        throw new UsageError(
+          "Please provide a feature branch name or switch to the feature branch",
+        );
+      }
+
+      branchName = currentBranch;
+      console.log(`🔍 Using current git branch for cleanup: ${branchName}`);
+    }
+
+    // Protect against deleting protected branches
+    assertNotProtected(branchName, config);
+    const neonBranchName = config.branches.name(branchName);
+
+    // Worktrees keep their own .env, so this checkout's stays as it is
+    const worktree = await findWorktree(branchName);
+    if (worktree && worktree.path === (await repositoryRoot())) {
+      throw new UsageError(
+        `Can't remove the worktree you're in, run cleanup from another checkout: ${worktree.path}`,
+      );
+    }
+
+    const neon = createNeonClientFromEnv();
+
+    console.log(`🧹 Cleaning up feature branch: ${branchName}`);
+
+    // Step 1: Find the feature branch and development branch, by the git
+    // branch feature init recorded on it rather than by name
+    console.log("🔍 Finding database branches...");
+    const [{ branches, annotations }, { endpoints }] = await Promise.all([
+      neon.branches.listAll(),
+      neon.endpoints.list(),
+    ]);
+    const featureBranch = findFeatureBranch(
+      branches,
+      annotations,
+      branchName,
+      config,
+    );
+
+    // .env is only moved off the feature, e.g. not off another feature
+    // being worked on. Without the branch, only off an endpoint that's gone.
+    const currentDatabaseUrl = getEnvValue(readEnvFile(), "DATABASE_URL");
+    const currentEndpoint = currentDatabaseUrl
+      ? findEndpointForDatabaseUrl(endpoints, currentDatabaseUrl)
+      : undefined;
+    const currentHost = currentDatabaseUrl
+      ? extractHostFromDatabaseUrl(currentDatabaseUrl)
+      : null;
+    const envPointsAtFeature = featureBranch
+      ? currentEndpoint?.branch_id === featureBranch.id
+      : !currentEndpoint &&
+        currentHost !== null &&
+        extractEndpointIdFromHost(currentHost) !== null;
+    const namesake = branches.find((branch) => branch.name === neonBranchName);
+    let archive: FeatureCleanupResult["archive"] = null;
+
+    if (!featureBranch) {
+      console.warn(
+        `⚠️  Database branch not found for '${neonBranchName}' (from git branch '${branchName}')`,
+      );
+      if (namesake) {
+        console.warn(
+          `⚠️  '${namesake.name}' belongs to git branch '${annotatedGitBranch(namesake, annotations)}' and is left alone`,
+        );
+      }
+      printAvailableBranches(branches);
+    } else {
+      console.log(
+        `✅ Found feature database branch: ${featureBranch.name} (${featureBranch.id}) from git branch '${branchName}'`,
+      );
+
+      // Step 2: Snapshot the feature branch, nothing is deleted if this fails
+      if (values.archive) {
+        const snapshotPayload = {
+          name: archiveSnapshotName(featureBranch.name, branchName, config),
+          expires_at: new Date(
+            Date.now() + daysToMs(config.ttl.archiveDays),
+          ).toISOString(),
+        };
+        console.log(`📸 Archiving the branch as ${snapshotPayload.name}...`);
+        const snapshotData = await plan.neon(
+          {
+            method: "POST",
+            path: `/projects/${neon.projectId}/branches/${featureBranch.id}/snapshot`,
+            query: { ...snapshotPayload },
+          },
+          () => neon.snapshots.create(featureBranch.id, snapshotPayload),
+        );
+        if (snapshotData) {
+          await waitForOperations(neon, snapshotData.operations);
+          archive = {
+            id: snapshotData.snapshot.id,
+            name: snapshotData.snapshot.name,
+            expiresAt:
+              snapshotData.snapshot.expires_at ?? snapshotPayload.expires_at,
+          };
+          console.log(
+            `✅ Archived until ${new Date(archive.expiresAt).toLocaleDateString()}, restore it with: neon-flow feature recover ${branchName}`,
+          );
+        }
+      }
+
+      // Step 3: Delete the feature branch
+      console.log("🗑️  Deleting feature database branch...");
+      await plan.neon(
+        {
+          method: "DELETE",
+          path: `/projects/${neon.projectId}/branches/${featureBranch.id}`,
+        },
+        () => neon.branches.delete(featureBranch.id),
+      );
+      plan.done(
+        `✅ Database branch '${featureBranch.name}' deleted successfully`,
+      );
+    }
+
+    // Step 4: Go back to the connection used before the feature, or to
+    // development when the journal has none that still exists
+    const developmentBranch = findDevelopmentBranch(branches, config);
+    const previous = findPreviousConnection(
+      readJournal(),
+      (name) =>
+        name === featureBranch?.name ||
+        !branches.some((branch) => branch.name === name),
+    );
+    const previousLabel =
+      previous?.entry.fromBranch ?? "the previous connection";
+    let envUpdated = false;
+    let envRestoredFrom: FeatureCleanupResult["envRestoredFrom"] = null;
+
+    if (worktree) {
+      console.log(
+        `💡 Leaving .env as it is, '${branchName}' uses the .env in ${worktree.path}`,
+      );
+    } else if (!envPointsAtFeature) {
+      console.log(
+        `💡 Leaving .env as it is, DATABASE_URL doesn't point at ${featureBranch?.name ?? neonBranchName}`,
+      );
+    } else if (previous) {
+      console.log(
+        `🔄 Switching .env DATABASE_URL back to ${previousLabel} (${JOURNAL_FILE_NAME})...`,
+      );
+      // The feature's read replica is gone with its branch
+      plan.updateEnvFile(
+        { READ_DATABASE_URL: null, ...previous.entry.previous },
+        { rewindTo: previous.index },
+      );
+      envUpdated = true;
+      envRestoredFrom = "journal";
+      plan.done(`✅ .env DATABASE_URL switched back to ${previousLabel}`);
+    } else if (!developmentBranch) {
+      console.warn(
+        `⚠️  Development branch not found. Looking for branches named ${config.branches.development.map((name) => `'${name}'`).join(", ")}`,
+      );
+      printAvailableBranches(branches);
+      console.log("💡 You'll need to manually update your .env DATABASE_URL");
+    } else {
+      console.log(
+        `✅ Found development branch: ${developmentBranch.name} (${developmentBranch.id})`,
+      );
+
+      // Step 5: Update .env file with development database connection
+      console.log(
+        "🔄 Updating .env DATABASE_URL with development database connection...",
+      );
+      const developmentDatabaseUrl = getEnvValue(
+        readEnvFile(),
+        "DEVELOPMENT_DATABASE_URL",
+      );
+
+      if (!developmentDatabaseUrl) {
+        console.warn("⚠️  DEVELOPMENT_DATABASE_URL not found in .env file");
+        console.log(
+          "💡 Please add DEVELOPMENT_DATABASE_URL to your .env file with the development branch connection string",
+        );
+      } else {
+        // The feature's read replica is gone with its branch
+        plan.updateEnvFile(
+          {
+            DATABASE_URL: developmentDatabaseUrl,
+            READ_DATABASE_URL: null,
+          },
+          { branch: developmentBranch.name },
+        );
+        envUpdated = true;
+        envRestoredFrom = "DEVELOPMENT_DATABASE_URL";
+        plan.done(
+          "✅ .env DATABASE_URL updated with development database connection",
+        );
+      }
+    }
+
+    // Step 6: Git cleanup (always performed)
+    let gitBranchDeleted = false;
+    let worktreeRemoved: string | null = null;
+    if (worktree) {
+      try {
+        console.log(`🌳 Removing git worktree ${worktree.path}...`);
+        await plan.git(
+          "worktree",
+          "remove",
+          ...(values.force ? ["--force"] : []),
+          worktree.path,
+        );
+        worktreeRemoved = worktree.path;
+        plan.done("✅ Git worktree removed");
+
+        await plan.git("branch", "-D", branchName);
+        gitBranchDeleted = true;
+        plan.done(`✅ Git branch '${branchName}' deleted`);
+      } catch (error) {
+        console.warn(
+          `⚠️  Could not remove git worktree ${worktree.path}: ${error}`,
+        );
+        console.log(
+          "💡 Commit or stash its changes, or use --force to discard them",
+        );
+      }
+    } else {
+      try {
+        console.log(
+          `🔄 Switching to ${baseBranch} branch and cleaning up git branch...`,
+        );
+        await plan.git("checkout", baseBranch);
+        plan.done(`✅ Switched to ${baseBranch} branch`);
+
+        try {
+          await plan.git("branch", "-D", branchName);
+          gitBranchDeleted = true;
+          plan.done(`✅ Git branch '${branchName}' deleted`);
+        } catch (error) {
+          console.warn(
+            `⚠️  Could not delete git branch '${branchName}': ${error}`,
+          );
+          console.log(
+            "💡 You may need to delete it manually if it has unmerged changes",
+          );
+        }
+      } catch (error) {
+        console.warn(`⚠️  Could not switch to ${baseBranch} branch: ${error}`);
+      }
+    }
+
+    if (plan.dryRun) {
+      return plan.finish();
+    }
+
+    // Lets automation tell "nothing to clean up" apart from a cleanup
+    if (!featureBranch && !gitBranchDeleted) {
+      throw new BranchNotFoundError(
+        `Nothing to clean up: neither the Neon branch '${neonBranchName}' nor the git branch '${branchName}' exist`,
+        neonBranchName,
+      );
+    }
+
+    // Step 7: Success message. Current DB is what .env points at now, the
+    // feature's branch when it couldn't be moved off it.
+    const currentBranchName = branches.find(
+      (branch) => branch.id === currentEndpoint?.branch_id,
+    )?.name;
+    const currentDb =
+      envRestoredFrom === "journal"
+        ? `${previousLabel} (${JOURNAL_FILE_NAME})`
+        : envRestoredFrom === "DEVELOPMENT_DATABASE_URL"
+          ? `development (${developmentBranch?.name})`
+          : !currentDatabaseUrl
+            ? "DATABASE_URL not set"
+            : envPointsAtFeature
+              ? `${featureBranch?.name ?? currentHost}, deleted ⚠️`
+              : `${currentBranchName ?? currentHost ?? "unknown"} (unchanged)`;
+    console.log("\n🎉 Feature cleanup complete!");
+    console.log(`
+┌─ Summary ─────────────────────────────────────────────────────────────────┐
+│ Feature Branch: ${branchName.padEnd(57)} │
+│ Database:       ${(featureBranch ? "Deleted ✅" : "Not found ⚠️ (skipped)").padEnd(57)} │
+│ Archive:        ${(archive ? `${archive.name} until ${new Date(archive.expiresAt).toLocaleDateString()}` : "None").padEnd(57)} │
+│ Current DB:     ${currentDb.padEnd(57)} │
+│ .env Updated:   ${(envUpdated ? "Automatically updated ✅" : worktree ? "Not needed, the worktree has its own" : "Manual update required ⚠️").padEnd(57)} │
+│ Worktree:       ${(worktreeRemoved ? "Removed ✅" : worktree ? "Not removed ⚠️" : "None").padEnd(57)} │
+│ Git Branch:     ${(gitBranchDeleted ? (worktree ? "Deleted ✅" : `Deleted ✅ (switched to ${baseBranch})`) : "Not deleted ⚠️").padEnd(57)} │
+└───────────────────────────────────────────────────────────────────────────┘
+`);
+
+    return {
+      dryRun: false,
+      gitBranch: branchName,
+      deletedBranch: featureBranch ? summarizeBranch(featureBranch) : null,
+      developmentBranch: developmentBranch
+        ? summarizeBranch(developmentBranch)
+        : null,
+      envUpdated,
+      envRestoredFrom,
+      gitBranchDeleted,
+      worktreeRemoved,
+      archive,
+    };
+  },
+});
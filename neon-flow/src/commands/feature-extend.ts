@@ -0,0 +1,132 @@
+import {
+  extendedExpiration,
+  findBranch,
+  findFeatureBranch,
+  isProtectedBranch,
+  printAvailableBranches,
+  summarizeBranch,
+  type BranchSummary,
+} from "../branches";
+import { createNeonClientFromEnv } from "../client";
+import { defineCommand } from "../command";
+import { daysToMs, describeDuration, parseDuration } from "../duration";
+import { BranchNotFoundError, UsageError } from "../errors";
+import { currentGitBranch } from "../git";
+import { DRY_RUN_OPTION, createPlan, type DryRunResult } from "../plan";
+import type { UpdateBranchRequest } from "../types";
+
+export interface FeatureExtendResult {
+  dryRun: false;
+  // With the new expiresAt
+  branch: BranchSummary;
+  previousExpiresAt: string;
+}
+
+export const featureExtend = defineCommand({
+  name: "feature extend",
+  arguments: "[branch]",
+  summary: "Push back the expiration of a feature's Neon database branch.",
+  description: [
+    "Without a branch the current git branch is used. A Neon branch name or id works as well, e.g. for test branches.",
+    "The expiration moves by ttl.featureDays (default 14) days unless --by is given,",
+    "counting from now if the branch has already expired.",
+  ],
+  options: {
+    by: {
+      type: "string",
+      valueName: "<duration>",
+      description: "How much longer to keep the branch, e.g. 7d, 2w or 12h",
+    },
+    "dry-run": DRY_RUN_OPTION,
+  },
+  examples: [
+    "neon-flow feature extend --by 7d",
+    "neon-flow feature extend andrelandgraf/feature-name --by 2w",
+    "neon-flow feature extend test-abc123f --by 1d",
+  ],
+  troubleshooting: [
+    "Ensure NEON_API_KEY and NEON_PROJECT_ID are set",
+    "Verify the branch name is correct",
+  ],
+
+  async run({
+    positionals,
+    values,
+    config,
+  }): Promise<FeatureExtendResult | DryRunResult> {
+    const plan = createPlan(values["dry-run"] === true);
+    const byMs = values.by
+      ? parseDuration(values.by, "--by")
+      : daysToMs(config.ttl.featureDays);
+    let branchName = positionals[0];
+
+    if (!branchName) {
+      const currentBranch = await currentGitBranch();
+
+      if (!currentBranch || isProtectedBranch(currentBranch, config)) {
+        throw new UsageError(
+          "Please provide a branch name or switch to a feature branch",
+        );
+      }
+
+      branchName = currentBranch;
+      console.log(`🔍 Using current git branch: ${branchName}`);
+    }
+
+    const neon = createNeonClientFromEnv();
+
+    // Step 1: Find the branch, by git branch first
+    console.log(`🔍 Finding database branch for '${branchName}'...`);
+    const { branches, annotations } = await neon.branches.listAll();
+    const branch =
+      findFeatureBranch(branches, annotations, branchName, config) ??
+      findBranch(branches, branchName);
+
+    if (!branch) {
+      printAvailableBranches(branches, console.error);
+      throw new BranchNotFoundError(
+        `Branch not found: no Neon branch for the git branch, name or id '${branchName}'.`,
+        branchName,
+      );
+    }
+
+    if (!branch.expire_at) {
+      throw new UsageError(
+        `'${branch.name}' doesn't expire, there is nothing to extend`,
+      );
+    }
+
+    console.log(`✅ Found branch: ${branch.name} (${branch.id})`);
+
+    // Step 2: Move the expiration
+    const previousExpiresAt = branch.expire_at;
+    const expiresAt = extendedExpiration(branch, byMs);
+    console.log(
+      `⏰ Extending by ${describeDuration(byMs)}: ${new Date(previousExpiresAt).toLocaleString()} → ${new Date(expiresAt).toLocaleString()}`,
+    );
+
+    const payload: UpdateBranchRequest = { branch: { expire_at: expiresAt } };
+    const updated = await plan.neon(
+      {
+        method: "PATCH",
+        path: `/projects/${neon.projectId}/branches/${branch.id}`,
+        body: payload,
+      },
+      () => neon.branches.update(branch.id, payload),
+    );
+
+    if (!updated) {
+      return plan.finish();
+    }
+
+    console.log(
+      `✅ '${branch.name}' now expires on ${new Date(updated.branch.expire_at ?? expiresAt).toLocaleDateString()}`,
+    );
+
+    return {
+      dryRun: false,
+      branch: summarizeBranch(updated.branch),
+      previousExpiresAt,
+    };
+  },
+});
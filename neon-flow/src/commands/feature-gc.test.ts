@@ -0,0 +1,175 @@
+import { describe, expect, test } from "bun:test";
+import type { TestProject } from "../test-project";
+import { withProject } from "../test-project";
+import type { FeatureGcResult } from "./feature-gc";
+
+const LONG_AGO = "2020-01-01T00:00:00Z";
+
+// An empty commit on the current branch dated LONG_AGO. git only takes the
+// committer date from the environment.
+function commitLongAgo(project: TestProject) {
+  const { exitCode, stderr } = Bun.spawnSync(
+    [
+      "git",
+      "-c",
+      "user.name=Test",
+      "-c",
+      "user.email=test@example.com",
+      "commit",
+      "--quiet",
+      "--allow-empty",
+      "-m",
+      "Old work",
+    ],
+    {
+      cwd: project.dir,
+      env: {
+        PATH: process.env.PATH ?? "",
+        HOME: project.dir,
+        GIT_AUTHOR_DATE: LONG_AGO,
+        GIT_COMMITTER_DATE: LONG_AGO,
+      },
+    },
+  );
+  if (exitCode !== 0) {
+    throw new Error(`git commit failed: ${stderr}`);
+  }
+}
+
+function reasonsByBranch(result: FeatureGcResult) {
+  return Object.fromEntries(
+    result.candidates.map((candidate) => [
+      candidate.gitBranch,
+      candidate.reasons,
+    ]),
+  );
+}
+
+describe("feature gc", () => {
+  test(
+    "flags and deletes the branch of a git branch merged into trunk",
+    withProject(async (project) => {
+      const init = await project.result<{ branch: { id: string } }>(
+        "feature",
+        "init",
+        "alice/search",
+      );
+      project.fake.state.branches.get(init.branch.id)!.created_at = LONG_AGO;
+      await project.git("commit", "--quiet", "--allow-empty", "-m", "Search");
+      await project.git("checkout", "--quiet", "main");
+      await project.git("merge", "--quiet", "--ff-only", "alice/search");
+      await project.git("push", "--quiet");
+
+      const result = await project.result<FeatureGcResult>(
+        "feature",
+        "gc",
+        "--yes",
+      );
+
+      expect(reasonsByBranch(result)).toEqual({ "alice/search": ["merged"] });
+      expect(result.deleted.map((branch) => branch.name)).toEqual([
+        "alice-search",
+      ]);
+      expect(project.branchNamed("alice-search")).toBeUndefined();
+      expect(project.branchNamed("development")).toBeDefined();
+    }),
+  );
+
+  test(
+    "flags a git branch whose upstream was deleted on origin",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/search");
+      await project.git("push", "--quiet", "--set-upstream", "origin", "HEAD");
+      await project.git("checkout", "--quiet", "main");
+      await project.git(
+        "push",
+        "--quiet",
+        "origin",
+        "--delete",
+        "alice/search",
+      );
+
+      const result = await project.result<FeatureGcResult>("feature", "gc");
+
+      expect(reasonsByBranch(result)).toEqual({ "alice/search": ["deleted"] });
+      // Nothing is deleted without a terminal or --yes
+      expect(result.deleted).toEqual([]);
+      expect(project.branchNamed("alice-search")).toBeDefined();
+    }),
+  );
+
+  test(
+    "flags a git branch that exists neither here nor on origin",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/search");
+      await project.git("checkout", "--quiet", "main");
+      await project.git("branch", "--quiet", "-D", "alice/search");
+
+      const result = await project.result<FeatureGcResult>("feature", "gc");
+
+      expect(reasonsByBranch(result)).toEqual({ "alice/search": ["deleted"] });
+    }),
+  );
+
+  test(
+    "flags a branch without commits or database activity as stale",
+    withProject(async (project) => {
+      const init = await project.result<{ branch: { id: string } }>(
+        "feature",
+        "init",
+        "alice/search",
+      );
+      commitLongAgo(project);
+      project.fake.state.branches.get(init.branch.id)!.updated_at = LONG_AGO;
+      for (const endpoint of project.fake.state.endpoints.values()) {
+        if (endpoint.branch_id === init.branch.id) {
+          endpoint.last_active = LONG_AGO;
+        }
+      }
+      await project.git("checkout", "--quiet", "main");
+
+      const result = await project.result<FeatureGcResult>(
+        "feature",
+        "gc",
+        "--stale",
+        "7d",
+      );
+
+      expect(reasonsByBranch(result)).toEqual({ "alice/search": ["stale"] });
+      expect(result.candidates[0].lastActiveAt).toStartWith("2020-01-01");
+    }),
+  );
+
+  test(
+    "keeps a recovered branch whose git branch is gone",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/search");
+      await project.result("feature", "cleanup", "--archive");
+      await project.result("feature", "recover", "alice/search");
+
+      const result = await project.result<FeatureGcResult>("feature", "gc");
+
+      expect(project.branchNamed("alice-search")).toBeDefined();
+      expect(result.candidates).toEqual([]);
+    }),
+  );
+
+  test(
+    "keeps the branch of the checked out git branch",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/search");
+      await project.git("push", "--quiet", "--set-upstream", "origin", "HEAD");
+      await project.git(
+        "push",
+        "--quiet",
+        "origin",
+        "--delete",
+        "alice/search",
+      );
+
+      const result = await project.result<FeatureGcResult>("feature", "gc");
+
+      expect(result.candidates).toEqual([]);
+    }),
+  );
+});
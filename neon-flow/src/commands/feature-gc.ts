@@ -0,0 +1,353 @@
+import {
+  RECOVERED_FROM_ANNOTATION,
+  annotatedGitBranch,
+  findDevelopmentBranch,
+  findProductionBranch,
+  isProtectedBranch,
+  summarizeBranch,
+  type BranchSummary,
+} from "../branches";
+import { createNeonClientFromEnv } from "../client";
+import { defineCommand } from "../command";
+import type { NeonFlowConfig } from "../config";
+import {
+  daysSince,
+  daysToMs,
+  describeDuration,
+  parseDuration,
+} from "../duration";
+import { UsageError } from "../errors";
+import {
+  commitExists,
+  git,
+  listGitBranches,
+  listWorktrees,
+  type GitBranchInfo,
+} from "../git";
+import { DRY_RUN_OPTION, createPlan, type DryRunResult } from "../plan";
+import { confirm } from "../prompt";
+import type { NeonAnnotation, NeonBranch } from "../types";
+
+// Why a feature branch can go:
+// - merged: the git branch has commits since the Neon branch was created,
+//   and all of them are in trunk
+// - deleted: origin deleted the git branch, e.g. after its pull request
+//   was merged. Either the local branch's upstream is gone, or the git
+//   branch recorded on the Neon branch is on neither origin nor here.
+//   Branches feature recover restored don't count as deleted for the
+//   latter, their git branch was usually deleted before they were archived.
+// - stale: no commits and no compute activity for gc.staleDays
+export type GcReason = "merged" | "deleted" | "stale";
+
+export interface GcCandidate {
+  branch: BranchSummary;
+  gitBranch: string;
+  reasons: GcReason[];
+  // Newest of the branch's last update, compute activity and commit
+  lastActiveAt: string;
+}
+
+export interface FeatureGcResult {
+  dryRun: false;
+  candidates: GcCandidate[];
+  // Neon branches that belong to no git branch: no annotation and no git
+  // branch with their name
+  skipped: BranchSummary[];
+  // Empty when the deletion wasn't confirmed
+  deleted: BranchSummary[];
+  failed: { branch: BranchSummary; error: string }[];
+}
+
+const REASON_LABELS: Record<GcReason, string> = {
+  merged: "merged",
+  deleted: "deleted on origin",
+  stale: "stale",
+};
+
+// Feature branches by the git branch they belong to: the annotated ones,
+// and unannotated ones named after a branch git knows. The rest are
+// unmatched.
+function matchFeatureBranches(
+  branches: NeonBranch[],
+  annotations: Record<string, NeonAnnotation>,
+  gitBranches: Map<string, GitBranchInfo>,
+  config: NeonFlowConfig,
+): {
+  features: { branch: NeonBranch; gitBranch: string }[];
+  unmatched: NeonBranch[];
+} {
+  const byName = new Map(
+    [...gitBranches.keys()].map((name) => [config.branches.name(name), name]),
+  );
+  const features: { branch: NeonBranch; gitBranch: string }[] = [];
+  const unmatched: NeonBranch[] = [];
+  for (const branch of branches) {
+    const gitBranch =
+      annotatedGitBranch(branch, annotations) ?? byName.get(branch.name);
+    if (gitBranch) {
+      features.push({ branch, gitBranch });
+    } else {
+      unmatched.push(branch);
+    }
+  }
+  return { features, unmatched };
+}
+
+function latest(...dates: (string | undefined)[]): string {
+  return dates
+    .filter((date): date is string => date !== undefined)
+    .reduce((a, b) => (new Date(a) > new Date(b) ? a : b));
+}
+
+// "today", "1 day ago", "12 days ago"
+function describeAge(isoDate: string): string {
+  const days = daysSince(isoDate);
+  return days === 0 ? "today" : `${days} day${days === 1 ? "" : "s"} ago`;
+}
+
+function formatCandidates(candidates: GcCandidate[]): string[] {
+  const rows = [
+    ["Neon Branch", "Git Branch", "Reason", "Last Active"],
+    ...candidates.map((candidate) => [
+      candidate.branch.name,
+      candidate.gitBranch,
+      candidate.reasons.map((reason) => REASON_LABELS[reason]).join(", "),
+      describeAge(candidate.lastActiveAt),
+    ]),
+  ];
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length)),
+  );
+  return rows.map((row) =>
+    `   ${row.map((cell, column) => cell.padEnd(widths[column])).join("  ")}`.trimEnd(),
+  );
+}
+
+export const featureGc = defineCommand({
+  name: "feature gc",
+  summary:
+    "Delete the Neon branches of features whose git branches are merged, deleted or stale.",
+  description: [
+    "Matches Neon branches to git branches, locally and on origin, by the git branch feature init recorded on them.",
+    "Protected branches, the development and production branches and branches checked out in a worktree are kept.",
+    "A git branch recorded on a Neon branch that exists neither here nor on origin counts as deleted, unless origin couldn't be fetched or the Neon branch was restored by feature recover.",
+    "Neon branches that belong to no git branch are listed as skipped.",
+    "Lists the branches and asks before deleting them. Without a terminal, e.g. in CI, pass --yes to delete them.",
+  ],
+  options: {
+    stale: {
+      type: "string",
+      valueName: "<duration>",
+      description:
+        "How long without commits or database activity makes a branch stale, e.g. 30d (default gc.staleDays)",
+    },
+    yes: {
+      type: "boolean",
+      short: "y",
+      description: "Delete the branches without asking",
+    },
+    "no-fetch": {
+      type: "boolean",
+      description: "Use origin's branches as of the last fetch",
+    },
+    "dry-run": DRY_RUN_OPTION,
+  },
+  examples: [
+    "neon-flow feature gc",
+    "neon-flow feature gc --stale 2w",
+    "neon-flow feature gc --yes --json",
+    "neon-flow feature gc --dry-run",
+  ],
+  troubleshooting: [
+    "Ensure NEON_API_KEY and NEON_PROJECT_ID are set",
+    "Check that origin is reachable, or pass --no-fetch",
+    "Branches with child branches can't be deleted until their children are",
+  ],
+
+  async run({ values, config }): Promise<FeatureGcResult | DryRunResult> {
+    const plan = createPlan(values["dry-run"] === true);
+    const staleMs = values.stale
+      ? parseDuration(values.stale, "--stale")
+      : daysToMs(config.gc.staleDays);
+    const baseBranch = config.git.baseBranch;
+
+    // Step 1: Bring origin's branches up to date, reads in dry runs too.
+    // After a failed fetch, a branch missing on origin may just be new.
+    let originFetched = true;
+    if (!values["no-fetch"]) {
+      console.log("🔄 Fetching branches from origin...");
+      try {
+        await git("fetch", "--prune", "--quiet", "origin");
+      } catch (error) {
+        originFetched = false;
+        console.warn(
+          `⚠️  Could not fetch from origin, using the branches of the last fetch: ${error}`,
+        );
+      }
+    }
+
+    const trunk = (await commitExists(`refs/remotes/origin/${baseBranch}`))
+      ? `origin/${baseBranch}`
+      : baseBranch;
+    if (!(await commitExists(trunk))) {
+      throw new UsageError(
+        `Base branch '${baseBranch}' not found, set git.baseBranch in neon-flow.config.ts`,
+      );
+    }
+
+    const gitBranches = await listGitBranches(trunk);
+    const checkedOut = new Set(
+      (await listWorktrees()).map((worktree) => worktree.branch),
+    );
+
+    // Step 2: Match the Neon branches to git branches
+    const neon = createNeonClientFromEnv();
+    console.log("🔍 Finding feature database branches...");
+    const [{ branches, annotations }, { endpoints }] = await Promise.all([
+      neon.branches.listAll(),
+      neon.endpoints.list(),
+    ]);
+
+    const kept = new Set(
+      [
+        findDevelopmentBranch(branches, config),
+        findProductionBranch(branches, config),
+      ].map((branch) => branch?.id),
+    );
+    const isKept = (branch: NeonBranch) =>
+      branch.default ||
+      branch.primary ||
+      branch.protected ||
+      kept.has(branch.id) ||
+      isProtectedBranch(branch.name, config);
+    const matched = matchFeatureBranches(
+      branches,
+      annotations,
+      gitBranches,
+      config,
+    );
+    const features = matched.features.filter(
+      ({ branch, gitBranch }) =>
+        !isKept(branch) &&
+        !isProtectedBranch(gitBranch, config) &&
+        !checkedOut.has(gitBranch),
+    );
+    const skipped = matched.unmatched
+      .filter((branch) => !isKept(branch))
+      .map(summarizeBranch);
+
+    // Step 3: Flag the ones whose git branch is done
+    const now = Date.now();
+    const candidates: GcCandidate[] = [];
+    const flagged: NeonBranch[] = [];
+    for (const { branch, gitBranch } of features) {
+      const info = gitBranches.get(gitBranch);
+      const lastActiveAt = latest(
+        branch.updated_at,
+        info?.lastCommitAt,
+        ...endpoints
+          .filter((endpoint) => endpoint.branch_id === branch.id)
+          .map((endpoint) => endpoint.last_active),
+      );
+
+      const reasons: GcReason[] = [];
+      if (
+        info?.merged &&
+        new Date(info.lastCommitAt) > new Date(branch.created_at)
+      ) {
+        reasons.push("merged");
+      }
+      const recovered =
+        annotations[branch.id]?.value[RECOVERED_FROM_ANNOTATION] !== undefined;
+      if (info ? info.upstreamGone : originFetched && !recovered) {
+        reasons.push("deleted");
+      }
+      if (now - new Date(lastActiveAt).getTime() > staleMs) {
+        reasons.push("stale");
+      }
+
+      if (reasons.length > 0) {
+        candidates.push({
+          branch: summarizeBranch(branch),
+          gitBranch,
+          reasons,
+          lastActiveAt,
+        });
+        flagged.push(branch);
+      }
+    }
+
+    console.log(
+      `✅ Found ${features.length} feature branch(es), ${candidates.length} to clean up (stale after ${describeDuration(staleMs)})`,
+    );
+    if (skipped.length > 0) {
+      console.log(
+        `⏭️  Skipped ${skipped.length} branch(es) that belong to no git branch: ${skipped.map((branch) => branch.name).join(", ")}`,
+      );
+    }
+
+    if (candidates.length === 0) {
+      console.log("✨ Nothing to clean up");
+      return plan.dryRun
+        ? plan.finish()
+        : { dryRun: false, candidates, skipped, deleted: [], failed: [] };
+    }
+
+    console.log("");
+    for (const line of formatCandidates(candidates)) {
+      console.log(line);
+    }
+    console.log("");
+
+    if (
+      !plan.dryRun &&
+      !values.yes &&
+      !(await confirm(`Delete ${candidates.length} Neon branch(es)?`))
+    ) {
+      console.log(
+        process.stdin.isTTY
+          ? "💡 Nothing deleted"
+          : "💡 Nothing deleted, pass --yes to delete without asking",
+      );
+      return { dryRun: false, candidates, skipped, deleted: [], failed: [] };
+    }
+
+    // Step 4: Delete them, one failure doesn't stop the rest
+    const deleted: BranchSummary[] = [];
+    const failed: FeatureGcResult["failed"] = [];
+    for (const branch of flagged) {
+      try {
+        console.log(`🗑️  Deleting ${branch.name} (${branch.id})...`);
+        await plan.neon(
+          {
+            method: "DELETE",
+            path: `/projects/${neon.projectId}/branches/${branch.id}`,
+          },
+          () => neon.branches.delete(branch.id),
+        );
+        deleted.push(summarizeBranch(branch));
+      } catch (error) {
+        console.warn(`⚠️  Could not delete ${branch.name}: ${error}`);
+        failed.push({ branch: summarizeBranch(branch), error: String(error) });
+      }
+    }
+
+    if (plan.dryRun) {
+      return plan.finish();
+    }
+
+    console.log("\n🎉 Feature branch cleanup complete!");
+    console.log(`
+┌─ Summary ─────────────────────────────────────────────────────────────────┐
+│ Feature Branches: ${String(features.length).padEnd(55)} │
+│ Deleted:          ${String(deleted.length).padEnd(55)} │
+│ Failed:           ${(failed.length > 0 ? `${failed.length} ⚠️` : "0").padEnd(55)} │
+└───────────────────────────────────────────────────────────────────────────┘
+`);
+    console.log(
+      "💡 Git branches are left alone, delete merged ones with: git branch -d <branch>",
+    );
+
+    return { dryRun: false, candidates, skipped, deleted, failed };
+  },
+});
@@ -0,0 +1,253 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "path";
+import { GIT_BRANCH_ANNOTATION } from "../branches";
+import { readEnvFile, removeEnvValue } from "../env-file";
+import { migrationHash } from "../migrations";
+import type { DryRunResult } from "../plan";
+import { withProject } from "../test-project";
+import type { FeatureInitResult } from "./feature-init";
+
+describe("feature init", () => {
+  test(
+    "branches from development and points .env at the new branch",
+    withProject(async (project) => {
+      const result = await project.result<FeatureInitResult>(
+        "feature",
+        "init",
+        "alice/search",
+      );
+
+      const branch = project.branchNamed("alice-search");
+      expect(result.branch.id).toBe(branch!.id);
+      expect(result.parentBranch.name).toBe("development");
+      expect(branch!.parent_id).toBe(project.branchNamed("development")!.id);
+      expect(branch!.expire_at).toBeDefined();
+      expect(
+        project.branchOfDatabaseUrl(project.envValue("DATABASE_URL"))?.id,
+      ).toBe(branch!.id);
+      expect(await project.git("branch", "--show-current")).toBe(
+        "alice/search",
+      );
+    }),
+  );
+});
+
+describe("feature init --dry-run", () => {
+  test(
+    "plans the branch without changing Neon, git or .env",
+    withProject(async (project) => {
+      const branches = project.fake.state.branches.size;
+
+      const result = await project.result<DryRunResult>(
+        "feature",
+        "init",
+        "alice/search",
+        "--dry-run",
+      );
+
+      expect(result.dryRun).toBe(true);
+      expect(result.planned.map((step) => step.type)).toEqual(
+        expect.arrayContaining(["neon", "git", "env"]),
+      );
+      expect(project.fake.state.branches.size).toBe(branches);
+      expect(project.envValue("DATABASE_URL")).toBeUndefined();
+      expect(await project.git("branch", "--show-current")).toBe("main");
+    }),
+  );
+});
+
+describe("feature init with colliding git branch names", () => {
+  test(
+    "gives each git branch its own Neon branch and records it in an annotation",
+    withProject(async (project) => {
+      const first = await project.result<FeatureInitResult>(
+        "feature",
+        "init",
+        "alice/foo_bar",
+      );
+      await project.git("checkout", "--quiet", "main");
+
+      const second = await project.result<FeatureInitResult>(
+        "feature",
+        "init",
+        "alice/foo-bar",
+      );
+
+      expect(first.branch.name).toBe("alice-foo-bar");
+      expect(second.branch.name).toBe("alice-foo-bar-2");
+      expect(second.reused).toBe(false);
+      expect(project.fake.state.annotations.get(first.branch.id)).toEqual({
+        [GIT_BRANCH_ANNOTATION]: "alice/foo_bar",
+      });
+      expect(project.fake.state.annotations.get(second.branch.id)).toEqual({
+        [GIT_BRANCH_ANNOTATION]: "alice/foo-bar",
+      });
+    }),
+  );
+});
+
+describe("feature init on an existing Neon branch", () => {
+  test(
+    "reuses the branch and repairs .env after an interrupted run",
+    withProject(async (project) => {
+      const first = await project.result<FeatureInitResult>(
+        "feature",
+        "init",
+        "alice/search",
+      );
+      // As if the first run stopped before writing .env
+      project.writeFile(
+        ".env",
+        removeEnvValue(readEnvFile(join(project.dir, ".env")), "DATABASE_URL"),
+      );
+      await project.git("checkout", "--quiet", "main");
+
+      const second = await project.result<FeatureInitResult>(
+        "feature",
+        "init",
+        "alice/search",
+      );
+
+      expect(second.reused).toBe(true);
+      expect(second.branch.id).toBe(first.branch.id);
+      expect(
+        [...project.fake.state.branches.values()].filter(
+          (branch) => branch.name === "alice-search",
+        ),
+      ).toHaveLength(1);
+      expect(
+        project.branchOfDatabaseUrl(project.envValue("DATABASE_URL"))?.id,
+      ).toBe(first.branch.id);
+      expect(await project.git("branch", "--show-current")).toBe(
+        "alice/search",
+      );
+    }),
+  );
+
+  test(
+    "replaces the branch with --recreate",
+    withProject(async (project) => {
+      const first = await project.result<FeatureInitResult>(
+        "feature",
+        "init",
+        "alice/search",
+      );
+
+      const second = await project.result<FeatureInitResult>(
+        "feature",
+        "init",
+        "alice/search",
+        "--recreate",
+      );
+
+      expect(second.reused).toBe(false);
+      expect(second.branch.name).toBe("alice-search");
+      expect(second.branch.id).not.toBe(first.branch.id);
+      expect(project.fake.state.branches.has(first.branch.id)).toBe(false);
+      expect(
+        project.branchOfDatabaseUrl(project.envValue("DATABASE_URL"))?.id,
+      ).toBe(second.branch.id);
+    }),
+  );
+});
+
+describe("feature init --schema-only", () => {
+  test(
+    "copies the parent's migration history, again when reusing the branch",
+    withProject(async (project) => {
+      project.writeConfig({ migrations: { command: project.migrateCommand } });
+      const applied = [
+        project.addMigration("0000_init"),
+        project.addMigration("0001_contacts"),
+      ].map((entry) => ({
+        hash: migrationHash(join(project.dir, "migrations"), entry)!,
+        created_at: String(entry.when),
+      }));
+      project.fake.state.migrations.set(
+        project.branchNamed("development")!.id,
+        applied,
+      );
+
+      const first = await project.result<FeatureInitResult>(
+        "feature",
+        "init",
+        "alice/search",
+        "--schema-only",
+      );
+
+      expect(first.schemaOnly).toBe(true);
+      expect(first.migrations.applied).toEqual([]);
+      expect(project.migrations("alice-search")).toEqual(applied);
+
+      // As if the first run stopped before copying the history
+      project.fake.state.migrations.set(
+        project.branchNamed("alice-search")!.id,
+        [],
+      );
+      project.addMigration("0002_search");
+      const second = await project.result<FeatureInitResult>(
+        "feature",
+        "init",
+        "alice/search",
+      );
+
+      expect(second.reused).toBe(true);
+      expect(second.migrations.applied).toEqual(["0002_search"]);
+      expect(project.migrations("alice-search")).toHaveLength(3);
+    }),
+  );
+});
+
+describe("feature init --worktree", () => {
+  test(
+    "migrates the branch from the worktree's checkout",
+    withProject(async (project) => {
+      project.writeConfig({ migrations: { command: project.migrateCommand } });
+      project.addMigration("0000_init");
+      await project.git("add", ".");
+      await project.git("commit", "--quiet", "-m", "Add migrations");
+      await project.git("push", "--quiet");
+      // Only in this checkout, the worktree starts from origin/main
+      project.addMigration("0001_local");
+
+      const result = await project.result<FeatureInitResult>(
+        "feature",
+        "init",
+        "alice/search",
+        "--worktree",
+      );
+
+      expect(result.migrations).toEqual({
+        applied: ["0000_init"],
+        skipped: null,
+      });
+      expect(project.migrations("alice-search")).toHaveLength(1);
+      expect(result.worktree?.created).toBe(true);
+    }),
+  );
+
+  test(
+    "reports the migrations as not applied when the command fails there",
+    withProject(async (project) => {
+      project.writeConfig({ migrations: { command: "exit 3" } });
+      project.addMigration("0000_init");
+      await project.git("add", ".");
+      await project.git("commit", "--quiet", "-m", "Add migrations");
+      await project.git("push", "--quiet");
+
+      const { exitCode, output, log } = await project.run<FeatureInitResult>(
+        "feature",
+        "init",
+        "alice/search",
+        "--worktree",
+      );
+
+      expect(exitCode).toBe(0);
+      expect(output.ok && output.result.migrations.skipped).toStartWith(
+        "not applied:",
+      );
+      expect(log).toContain("Migrations were NOT applied");
+      expect(project.migrations("alice-search")).toBeUndefined();
+    }),
+  );
+});
@@ -0,0 +1,1103 @@
+import {
+  GIT_BRANCH_ANNOTATION,
+  annotatedGitBranch,
+  assertNotProductionOrProtected,
+  assertNotProtected,
+  describeBranchPoint,
+  featureBranchName,
+  findBranch,
+  findDevelopmentBranch,
+  findFeatureBranch,
+  isProtectedBranch,
+  parseBranchPoint,
+  printAvailableBranches,
+  summarizeBranch,
+  type BranchPoint,
+  type BranchSummary,
+} from "../branches";
+import { createNeonClientFromEnv, type NeonClient } from "../client";
+import { defineCommand, type CommandArgs, type OptionSpec } from "../command";
+import {
+  describeEndpointCompute,
+  endpointSpec,
+  resolveCompute,
+  type ComputeSettings,
+} from "../compute";
+import type { NeonFlowConfig } from "../config";
+import { branchDatabaseUrl, pooledDatabaseUrl } from "../connection";
+import { daysToMs, describeDuration, parseDuration } from "../duration";
+import { envFilePath } from "../env-file";
+import {
+  BranchNotFoundError,
+  ConfigError,
+  EXIT_CODES,
+  NeonFlowError,
+  UsageError,
+} from "../errors";
+import {
+  branchExists,
+  currentGitBranch,
+  findWorktree,
+  listWorktrees,
+  repositoryPrefix,
+  repositoryRoot,
+} from "../git";
+import { countMaskedRows, hasMaskingRules } from "../masking";
+import {
+  migrateBranch,
+  migrationJournalPath,
+  readMigrationJournal,
+  type MigrationJournalEntry,
+} from "../migrations";
+import { runningBranchOperations, waitForOperations } from "../operations";
+import {
+  DRY_RUN_OPTION,
+  createPlan,
+  type DryRunResult,
+  type Plan,
+} from "../plan";
+import type {
+  ConnectionUri,
+  CreateBranchRequest,
+  NeonBranch,
+  NeonEndpoint,
+  NeonOperation,
+} from "../types";
+import { existsSync } from "fs";
+import { basename, join, resolve } from "path";
+
+export interface FeatureInitResult {
+  dryRun: false;
+  gitBranch: string;
+  branch: BranchSummary;
+  parentBranch: BranchSummary;
+  // The point in the parent's history the branch starts from, null when
+  // it was created from the parent's latest state
+  parentLsn: string | null;
+  parentTimestamp: string | null;
+  // Host of the endpoint DATABASE_URL now points at
+  host: string;
+  pooled: boolean;
+  // Created with init_source "schema-only", without the parent's rows
+  schemaOnly: boolean;
+  // Whether seed.command ran against the branch
+  seeded: boolean;
+  migrations: {
+    // Journal tags of the migrations applied to the branch, oldest first
+    applied: string[];
+    // Why pending migrations weren't checked, null when they were
+    skipped: string | null;
+  };
+  // Rows rewritten per table in masking.tables, null when nothing was
+  // masked: no rules, --no-mask or a schema-only branch
+  masked: Record<string, number> | null;
+  // Created with --worktree, null otherwise
+  worktree: FeatureWorktree | null;
+  // Whether the Neon branch already existed, e.g. from an interrupted run,
+  // and was reused instead of created
+  reused: boolean;
+  // Settings of the read-write endpoint, with the project's defaults filled in
+  compute: ComputeSettings | null;
+  // Host of the read-only endpoint READ_DATABASE_URL points at, null
+  // without --read-replica
+  readReplicaHost: string | null;
+}
+
+// The branch's read-only endpoint and its pooled connection string
+async function findReadReplica(
+  neon: NeonClient,
+  branchId: string,
+): Promise<{ endpoint: NeonEndpoint; url: string | null } | null> {
+  const { endpoints } = await neon.endpoints.listForBranch(branchId);
+  const endpoint = endpoints.find((e) => e.type === "read_only");
+  if (!endpoint) {
+    return null;
+  }
+  return {
+    endpoint,
+    url: (await branchDatabaseUrl(neon, branchId, endpoint.id)) ?? null,
+  };
+}
+
+export interface FeatureWorktree {
+  path: string;
+  // This project's directory inside the worktree, holding its .env
+  projectPath: string;
+  // A dev server port no other worktree is suggested, 3000 + its position
+  port: number;
+  // false when an earlier run already created it
+  created: boolean;
+}
+
+// Where --worktree puts the feature: <worktreesDir>/<repository>-<branch>,
+// or the worktree that already has the branch checked out
+async function planWorktree(
+  branchName: string,
+  neonBranchName: string,
+  config: NeonFlowConfig,
+): Promise<FeatureWorktree> {
+  const root = await repositoryRoot();
+  const worktrees = await listWorktrees();
+  const existing = await findWorktree(branchName);
+  const path =
+    existing?.path ??
+    resolve(
+      root,
+      config.git.worktreesDir,
+      `${basename(root)}-${neonBranchName}`,
+    );
+  const position = worktrees.findIndex((worktree) => worktree.path === path);
+  return {
+    path,
+    projectPath: join(path, await repositoryPrefix()),
+    port: 3000 + (position === -1 ? worktrees.length : position),
+    created: !existing,
+  };
+}
+
+const featureInitOptions = {
+  parent: {
+    type: "string",
+    short: "p",
+    valueName: "<name|id>",
+    description:
+      "Branch from this Neon branch instead of the development branch",
+  },
+  at: {
+    type: "string",
+    valueName: "<timestamp|lsn>",
+    description:
+      "Branch from the parent's state at this time (e.g. 2025-01-14T09:30:00Z) or LSN (e.g. 0/1A2B3C4D)",
+  },
+  "schema-only": {
+    type: "boolean",
+    description:
+      "Copy only the parent's schema, none of its data (e.g. when it holds PII)",
+  },
+  ttl: {
+    type: "string",
+    valueName: "<duration>",
+    description:
+      "Delete the database branch after this long instead of ttl.featureDays, e.g. 30d, 2w or 12h",
+  },
+  seed: {
+    type: "boolean",
+    description:
+      "Run seed.command from neon-flow.config.ts against the new branch",
+  },
+  worktree: {
+    type: "boolean",
+    short: "w",
+    description:
+      "Check the branch out in a new git worktree with its own .env instead of switching branches here",
+  },
+  recreate: {
+    type: "boolean",
+    description:
+      "Delete the feature's existing Neon branch and create it again instead of reusing it",
+  },
+  "min-cu": {
+    type: "string",
+    valueName: "<cu>",
+    description: "Minimum autoscaling size of the branch's computes, e.g. 0.25",
+  },
+  "max-cu": {
+    type: "string",
+    valueName: "<cu>",
+    description:
+      "Maximum autoscaling size of the branch's computes, e.g. 4 to match production",
+  },
+  "suspend-timeout": {
+    type: "string",
+    valueName: "<seconds>",
+    description:
+      "Seconds of inactivity before the computes suspend, -1 to never suspend",
+  },
+  "read-replica": {
+    type: "boolean",
+    description:
+      "Also create a read-only endpoint and write READ_DATABASE_URL to .env",
+  },
+  "no-mask": {
+    type: "boolean",
+    description:
+      "Keep the parent's values in the columns listed in masking.tables",
+  },
+  "no-migrate": {
+    type: "boolean",
+    description:
+      "Don't apply pending migrations from migrations/meta/_journal.json",
+  },
+  "dry-run": DRY_RUN_OPTION,
+} as const satisfies Record<string, OptionSpec>;
+
+type FeatureInitValues = CommandArgs<typeof featureInitOptions>["values"];
+
+// The command line resolved against neon-flow.config.ts, before anything
+// is changed
+interface InitSettings {
+  branchName: string;
+  ttlMs: number;
+  compute: ComputeSettings;
+  readReplica: boolean;
+  branchPoint: BranchPoint | undefined;
+  schemaOnly: boolean;
+  seedCommand: string | null;
+  // Masking rules are configured and neither --no-mask nor --schema-only
+  mask: boolean;
+  migrateCommand: string | null;
+  journal: MigrationJournalEntry[] | null;
+  // Why pending migrations won't be checked, null when they will
+  skipMigrations: string | null;
+  // migrations.dir and where migrations.command runs, inside the worktree
+  // with --worktree
+  migrationsDir: string;
+  migrateCwd: string | undefined;
+}
+
+// The feature's Neon branch from an earlier run and the branch to branch from
+interface InitTarget {
+  branches: NeonBranch[];
+  existingBranch: NeonBranch | undefined;
+  neonBranchName: string;
+  // Whether existingBranch is kept instead of created again
+  reuse: boolean;
+  parentBranch: NeonBranch;
+}
+
+// The feature's Neon branch once created, undefined in a dry run
+interface FeatureBranch {
+  branch: NeonBranch | undefined;
+  operations: NeonOperation[];
+  // Only returned when the branch was created by this run
+  connectionUri: ConnectionUri | undefined;
+  expiresAt: string | undefined;
+}
+
+interface BranchConnection {
+  databaseUrl: string;
+  pooled: boolean;
+  // The endpoints as Neon created them, with the project's defaults
+  readWriteEndpoint: NeonEndpoint | undefined;
+  replica: { endpoint: NeonEndpoint; url: string | null } | null;
+}
+
+interface MigrationOutcome {
+  applied: string[];
+  skipped: string | null;
+  // The branch is ready, only checking for pending migrations failed
+  checkFailed: boolean;
+  // migrations.command failed in the worktree, the branch is usable but
+  // behind the worktree's schema
+  notApplied: boolean;
+}
+
+async function resolveSettings(
+  positionals: string[],
+  values: FeatureInitValues,
+  config: NeonFlowConfig,
+): Promise<InitSettings> {
+  const ttlMs = values.ttl
+    ? parseDuration(values.ttl, "--ttl")
+    : daysToMs(config.ttl.featureDays);
+  const compute = resolveCompute(config.compute, values);
+  let branchName = positionals[0];
+
+  if (!branchName) {
+    const currentBranch = await currentGitBranch();
+
+    if (!currentBranch || isProtectedBranch(currentBranch, config)) {
+      throw new UsageError(
+        "Please provide a branch name or switch to a feature branch",
+      );
+    }
+
+    branchName = currentBranch;
+    console.log(`🔍 Using current git branch: ${branchName}`);
+  }
+
+  assertNotProtected(branchName, config);
+  const branchPoint = values.at ? parseBranchPoint(values.at) : undefined;
+  const schemaOnly = values["schema-only"] === true;
+  const seedCommand = values.seed ? config.seed.command : null;
+
+  if (schemaOnly && branchPoint) {
+    throw new UsageError(
+      "--schema-only branches start from the parent's latest schema and can't be combined with --at",
+    );
+  }
+  if (values.seed && !seedCommand) {
+    throw new ConfigError(
+      '--seed needs seed.command in neon-flow.config.ts, e.g. seed: { command: "bun run db:seed" }',
+    );
+  }
+
+  // Read the journal up front so a broken one fails before any changes. A
+  // worktree's journal is read once it is checked out.
+  const migrateCommand = config.migrations.command;
+  const journal =
+    values.worktree || values["no-migrate"] || !migrateCommand
+      ? null
+      : readMigrationJournal(config.migrations.dir);
+  let skipMigrations: string | null = null;
+  if (values["no-migrate"]) {
+    skipMigrations = "--no-migrate";
+  } else if (!migrateCommand) {
+    skipMigrations = "migrations.command is null";
+  } else if (!journal && !values.worktree) {
+    skipMigrations = `${migrationJournalPath(config.migrations.dir)} not found`;
+  }
+
+  return {
+    branchName,
+    ttlMs,
+    compute,
+    readReplica: values["read-replica"] === true || config.compute.readReplica,
+    branchPoint,
+    schemaOnly,
+    seedCommand,
+    // Schema-only branches have no rows to mask
+    mask: hasMaskingRules(config.masking) && !values["no-mask"] && !schemaOnly,
+    migrateCommand,
+    journal,
+    skipMigrations,
+    migrationsDir: config.migrations.dir,
+    migrateCwd: undefined,
+  };
+}
+
+// Step 1: Find the feature's Neon branch from an earlier run and the branch
+// to branch from, before touching git
+async function findTarget(
+  neon: NeonClient,
+  { branchName, branchPoint, schemaOnly }: InitSettings,
+  values: FeatureInitValues,
+  config: NeonFlowConfig,
+): Promise<InitTarget> {
+  const { branches, annotations } = await neon.branches.listAll();
+  const existingBranch = findFeatureBranch(
+    branches,
+    annotations,
+    branchName,
+    config,
+  );
+  // --recreate keeps the name, the existing branch is deleted first
+  const neonBranchName =
+    existingBranch?.name ?? featureBranchName(branches, branchName, config);
+  const derivedName = config.branches.name(branchName);
+  if (neonBranchName !== derivedName) {
+    const owner = branches.find((branch) => branch.name === derivedName);
+    const ownerGitBranch = owner && annotatedGitBranch(owner, annotations);
+    console.warn(
+      ownerGitBranch
+        ? `⚠️  Neon branch '${derivedName}' belongs to git branch '${ownerGitBranch}', using '${neonBranchName}' for '${branchName}'`
+        : `⚠️  Using '${neonBranchName}' for '${branchName}' instead of '${derivedName}'`,
+    );
+  }
+  const reuse = existingBranch !== undefined && !values.recreate;
+  let parentBranch: NeonBranch | undefined;
+
+  if (existingBranch) {
+    console.log(
+      `♻️  Found existing database branch: ${existingBranch.name} (${existingBranch.id})`,
+    );
+    if (values.recreate) {
+      assertNotProductionOrProtected(existingBranch, branches, config);
+    } else {
+      if (
+        values.parent ||
+        branchPoint ||
+        schemaOnly ||
+        values["min-cu"] ||
+        values["max-cu"] ||
+        values["suspend-timeout"] ||
+        values["read-replica"]
+      ) {
+        console.warn(
+          "⚠️  --parent, --at, --schema-only and compute options only apply to new branches, use --recreate to create it again",
+        );
+      }
+      if (values.ttl) {
+        console.warn(
+          `⚠️  --ttl only applies to new branches, use 'neon-flow feature extend ${branchName} --by ${values.ttl}' to keep it longer`,
+        );
+      }
+    }
+  }
+
+  if (reuse) {
+    parentBranch = branches.find(
+      (branch) => branch.id === existingBranch.parent_id,
+    );
+  }
+
+  if (parentBranch) {
+    // A reused branch keeps the parent it was created from
+  } else if (values.parent) {
+    console.log(`🔍 Finding parent database branch '${values.parent}'...`);
+    parentBranch = findBranch(branches, values.parent);
+
+    if (!parentBranch) {
+      printAvailableBranches(branches, console.error);
+      throw new BranchNotFoundError(
+        `Parent branch not found: no branch with the name or id '${values.parent}'.`,
+        values.parent,
+      );
+    }
+  } else {
+    console.log("🔍 Finding development database branch...");
+    parentBranch = findDevelopmentBranch(branches, config);
+
+    if (!parentBranch) {
+      throw new BranchNotFoundError(
+        `Development branch not found. Looking for a branch named ${config.branches.development.map((name) => `'${name}'`).join(", ")}. Use --parent to branch from another branch.`,
+      );
+    }
+  }
+
+  console.log(
+    `✅ Found parent branch: ${parentBranch.name} (${parentBranch.id})`,
+  );
+  if (branchPoint && !reuse) {
+    console.log(`🕰️  Branching from ${describeBranchPoint(branchPoint)}`);
+  }
+
+  return { branches, existingBranch, neonBranchName, reuse, parentBranch };
+}
+
+// Step 2: Ensure we're on the correct git branch, or create a worktree
+async function checkoutFeature(
+  plan: Plan,
+  branchName: string,
+  neonBranchName: string,
+  useWorktree: boolean,
+  config: NeonFlowConfig,
+): Promise<FeatureWorktree | null> {
+  const baseBranch = config.git.baseBranch;
+
+  if (!useWorktree) {
+    if ((await currentGitBranch()) === branchName) {
+      console.log(`✅ Already on branch '${branchName}'`);
+    } else if (await branchExists(branchName)) {
+      console.log(`📦 Switching to existing git branch '${branchName}'...`);
+      await plan.git("checkout", branchName);
+      plan.done(`✅ Git branch '${branchName}' checked out`);
+    } else {
+      console.log(`📦 Creating git branch from ${baseBranch}...`);
+      await plan.git("checkout", baseBranch);
+      await plan.git("pull", "origin", baseBranch);
+      await plan.git("checkout", "-b", branchName);
+      plan.done(`✅ Git branch '${branchName}' created and checked out`);
+    }
+    return null;
+  }
+
+  const worktree = await planWorktree(branchName, neonBranchName, config);
+  if ((await currentGitBranch()) === branchName) {
+    throw new UsageError(
+      `'${branchName}' is checked out here, switch to another branch before moving it to a worktree`,
+    );
+  }
+
+  if (!worktree.created) {
+    console.log(`✅ Using existing git worktree at ${worktree.path}`);
+  } else {
+    console.log(`🌳 Creating git worktree at ${worktree.path}...`);
+    if (await branchExists(branchName)) {
+      await plan.git("worktree", "add", worktree.path, branchName);
+    } else {
+      await plan.git("fetch", "origin", baseBranch);
+      await plan.git(
+        "worktree",
+        "add",
+        "--no-track",
+        "-b",
+        branchName,
+        worktree.path,
+        `origin/${baseBranch}`,
+      );
+    }
+    plan.done(`✅ Git worktree for '${branchName}' created`);
+  }
+  return worktree;
+}
+
+// The worktree is migrated from its own checkout, which can be on another
+// commit than this one. A dry run plans against the worktree it would create.
+function worktreeMigrations(
+  settings: InitSettings,
+  worktree: FeatureWorktree,
+  config: NeonFlowConfig,
+): InitSettings {
+  if (!settings.migrateCommand || settings.skipMigrations) {
+    return settings;
+  }
+
+  const migrationsDir = join(worktree.projectPath, config.migrations.dir);
+  const paths = { migrationsDir, migrateCwd: worktree.projectPath };
+  if (!existsSync(worktree.projectPath)) {
+    return { ...settings, ...paths };
+  }
+  const journal = readMigrationJournal(migrationsDir);
+  return {
+    ...settings,
+    ...paths,
+    journal,
+    skipMigrations: journal
+      ? null
+      : `${migrationJournalPath(migrationsDir)} not found`,
+  };
+}
+
+// Step 3: Create new Neon branch with TTL, or reuse the existing one
+async function createOrReuseBranch(
+  neon: NeonClient,
+  plan: Plan,
+  settings: InitSettings,
+  { existingBranch, neonBranchName, reuse, parentBranch }: InitTarget,
+): Promise<FeatureBranch> {
+  if (existingBranch && reuse) {
+    console.log("♻️  Reusing the existing Neon database branch...");
+    return {
+      branch: existingBranch,
+      operations: await runningBranchOperations(neon, existingBranch.id),
+      connectionUri: undefined,
+      expiresAt: existingBranch.expire_at,
+    };
+  }
+
+  if (existingBranch) {
+    console.log("🗑️  Deleting existing database branch (--recreate)...");
+    const deleted = await plan.neon(
+      {
+        method: "DELETE",
+        path: `/projects/${neon.projectId}/branches/${existingBranch.id}`,
+      },
+      () => neon.branches.delete(existingBranch.id),
+    );
+    if (deleted) {
+      await waitForOperations(neon, deleted.operations);
+    }
+    plan.done(`✅ Database branch '${existingBranch.name}' deleted`);
+  }
+
+  console.log("🎋 Creating new Neon database branch...");
+
+  const expirationDate = new Date(Date.now() + settings.ttlMs);
+  const expiresAt = expirationDate.toISOString();
+
+  const createBranchPayload: CreateBranchRequest = {
+    endpoints: [
+      endpointSpec("read_write", settings.compute),
+      ...(settings.readReplica
+        ? [endpointSpec("read_only", settings.compute)]
+        : []),
+    ],
+    branch: {
+      parent_id: parentBranch.id,
+      name: neonBranchName,
+      expire_at: expiresAt,
+      ...settings.branchPoint,
+      ...(settings.schemaOnly && { init_source: "schema-only" as const }),
+    },
+    // Lets cleanup and reruns find the branch whatever its name
+    annotation_value: { [GIT_BRANCH_ANNOTATION]: settings.branchName },
+  };
+
+  const newBranchData = await plan.neon(
+    {
+      method: "POST",
+      path: `/projects/${neon.projectId}/branches`,
+      body: createBranchPayload,
+    },
+    () => neon.branches.create(createBranchPayload),
+  );
+
+  if (!newBranchData) {
+    return {
+      branch: undefined,
+      operations: [],
+      connectionUri: undefined,
+      expiresAt,
+    };
+  }
+
+  const connectionUri = newBranchData.connection_uris[0];
+  if (!connectionUri) {
+    throw new NeonFlowError(
+      "No connection URI received from Neon API",
+      EXIT_CODES.api,
+    );
+  }
+  console.log(
+    `✅ Neon branch created: ${newBranchData.branch.name} (${newBranchData.branch.id})`,
+  );
+  console.log(
+    `⏰ Branch will expire on: ${expirationDate.toLocaleDateString()}`,
+  );
+  return {
+    branch: newBranchData.branch,
+    operations: newBranchData.operations,
+    connectionUri,
+    expiresAt,
+  };
+}
+
+// READ_DATABASE_URL is removed for branches without a read replica, it would
+// point at another branch. A worktree gets a copy of this checkout's .env,
+// .env is gitignored.
+function writeFeatureEnv(
+  plan: Plan,
+  worktree: FeatureWorktree | null,
+  neonBranchName: string,
+  url: string,
+  readUrl: string | null,
+): void {
+  const updates = { DATABASE_URL: url, READ_DATABASE_URL: readUrl };
+  if (worktree) {
+    plan.updateEnvFile(updates, {
+      path: envFilePath(worktree.projectPath),
+      from: envFilePath(),
+    });
+  } else {
+    plan.updateEnvFile(updates, { branch: neonBranchName });
+  }
+}
+
+// The steps after creating the branch, planned against placeholders where
+// the branch doesn't exist yet
+async function planRemainingSteps(
+  neon: NeonClient,
+  plan: Plan,
+  settings: InitSettings,
+  neonBranchName: string,
+  featureBranch: NeonBranch | undefined,
+  worktree: FeatureWorktree | null,
+  config: NeonFlowConfig,
+): Promise<void> {
+  const pendingUrl =
+    (featureBranch && (await branchDatabaseUrl(neon, featureBranch.id))) ??
+    `<pooled connection string of ${neonBranchName}>`;
+  if (settings.migrateCommand && !settings.skipMigrations) {
+    await plan.run(settings.migrateCommand, {}, settings.migrateCwd);
+  }
+  if (settings.mask) {
+    await plan.mask(neonBranchName, pendingUrl, config.masking);
+  }
+  const pendingReadUrl = featureBranch
+    ? ((await findReadReplica(neon, featureBranch.id))?.url ?? null)
+    : settings.readReplica
+      ? `<pooled connection string of the read replica of ${neonBranchName}>`
+      : null;
+  writeFeatureEnv(plan, worktree, neonBranchName, pendingUrl, pendingReadUrl);
+  if (settings.seedCommand) {
+    await plan.run(settings.seedCommand, {});
+  }
+}
+
+// Step 5: Get the pooled connection string and the branch's endpoints
+async function connectToBranch(
+  neon: NeonClient,
+  featureBranch: NeonBranch,
+  connectionUri: ConnectionUri | undefined,
+  readReplica: boolean,
+): Promise<BranchConnection> {
+  let databaseUrl: string;
+  if (connectionUri) {
+    databaseUrl = pooledDatabaseUrl(connectionUri);
+  } else {
+    const uri = await branchDatabaseUrl(neon, featureBranch.id);
+    if (!uri) {
+      throw new BranchNotFoundError(
+        `Branch '${featureBranch.name}' has no database to connect to, use --recreate to create it again`,
+        featureBranch.name,
+      );
+    }
+    databaseUrl = uri;
+  }
+  // Pooler hosts carry a -pooler suffix on the endpoint id
+  const pooled = connectionUri
+    ? Boolean(connectionUri.connection_parameters.pooler_host)
+    : databaseUrl.includes("-pooler.");
+
+  const { endpoints } = await neon.endpoints.listForBranch(featureBranch.id);
+  const replica = await findReadReplica(neon, featureBranch.id);
+  if (readReplica && !replica) {
+    console.warn(
+      `⚠️  ${featureBranch.name} has no read replica, use --recreate to create it again with one`,
+    );
+  }
+
+  return {
+    databaseUrl,
+    pooled,
+    readWriteEndpoint: endpoints.find((e) => e.type === "read_write"),
+    replica,
+  };
+}
+
+// Step 6: Apply migrations the branch doesn't have yet, before masking and
+// seeding so both work with the latest schema
+async function migrateFeatureBranch(
+  neon: NeonClient,
+  settings: InitSettings,
+  featureBranch: NeonBranch,
+  parentBranch: NeonBranch,
+  databaseUrl: string,
+  config: NeonFlowConfig,
+): Promise<MigrationOutcome> {
+  const { migrateCommand, journal, skipMigrations, migrateCwd } = settings;
+  const outcome = { applied: [], checkFailed: false, notApplied: false };
+  if (!migrateCommand || !journal) {
+    return { ...outcome, skipped: skipMigrations };
+  }
+
+  console.log("🧱 Checking for pending migrations...");
+  try {
+    const applied = await migrateBranch(
+      neon,
+      {
+        ...config.migrations,
+        dir: settings.migrationsDir,
+        command: migrateCommand,
+      },
+      journal,
+      databaseUrl,
+      // Also for reused branches, whose first run may have stopped before
+      // the history was copied
+      featureBranch.init_source === "schema-only" ? parentBranch : null,
+      migrateCwd,
+    );
+    return { ...outcome, applied, skipped: null };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // A new worktree usually has no dependencies installed yet. The branch
+    // and the worktree are still usable once it is migrated by hand.
+    if (migrateCwd && error instanceof NeonFlowError) {
+      console.error(`❌ Migrations were NOT applied: ${message}`);
+      console.error(
+        `   Run '${migrateCommand}' in ${migrateCwd} before using the branch, see the next steps below`,
+      );
+      return {
+        ...outcome,
+        skipped: `not applied: ${message}`,
+        notApplied: true,
+      };
+    }
+    if (error instanceof NeonFlowError) {
+      throw error;
+    }
+    console.warn(`⚠️  Could not check for pending migrations: ${error}`);
+    return {
+      ...outcome,
+      skipped: `could not check: ${message}`,
+      checkFailed: true,
+    };
+  }
+}
+
+// Step 7: Replace personal data before .env points anyone at it. A reused
+// branch is masked again, its first run may have failed before masking it.
+async function maskFeatureBranch(
+  plan: Plan,
+  branchName: string,
+  featureBranch: NeonBranch,
+  branches: NeonBranch[],
+  databaseUrl: string,
+  config: NeonFlowConfig,
+): Promise<Record<string, number> | null> {
+  assertNotProductionOrProtected(featureBranch, branches, config);
+  console.log("🎭 Masking personal data...");
+  let masked: Record<string, number> | null;
+  try {
+    masked =
+      (await plan.mask(featureBranch.name, databaseUrl, config.masking)) ??
+      null;
+  } catch (error) {
+    console.error(
+      `⚠️  ${featureBranch.name} may still hold unmasked data, .env was not changed. Retry with 'neon-flow db mask ${featureBranch.name}' or start over with 'neon-flow feature init ${branchName} --recreate'`,
+    );
+    throw error;
+  }
+  console.log(`✅ Masked ${countMaskedRows(masked ?? {})} row(s)`);
+  return masked;
+}
+
+// Step 9: Fill the new branch with data
+async function seedFeatureBranch(
+  plan: Plan,
+  seedCommand: string,
+  databaseUrl: string,
+): Promise<void> {
+  console.log(`🌱 Seeding database branch: ${seedCommand}`);
+  await plan.run(seedCommand, { DATABASE_URL: databaseUrl });
+  console.log("✅ Database branch seeded");
+}
+
+// Step 10: Success message
+function printSummary(
+  settings: InitSettings,
+  { reuse, parentBranch }: InitTarget,
+  featureBranch: NeonBranch,
+  expiresAt: string | undefined,
+  worktree: FeatureWorktree | null,
+  { pooled, readWriteEndpoint, replica }: BranchConnection,
+  migrations: MigrationOutcome,
+  masked: Record<string, number> | null,
+  values: FeatureInitValues,
+  config: NeonFlowConfig,
+): void {
+  const { branchName, branchPoint, schemaOnly, seedCommand, migrateCommand } =
+    settings;
+  const data = reuse
+    ? "Existing branch, kept as it is"
+    : schemaOnly
+      ? seedCommand
+        ? "Schema only, seeded ✅"
+        : "Schema only, tables are empty"
+      : "Copied from parent";
+  const migrationStatus = migrations.notApplied
+    ? "NOT applied, see next steps ⚠️"
+    : migrations.checkFailed
+      ? "Could not check ⚠️"
+      : migrations.skipped
+        ? `Skipped (${migrations.skipped})`
+        : migrations.applied.length > 0
+          ? `${migrations.applied.length} applied ✅`
+          : "Up to date ✅";
+  const maskingStatus = masked
+    ? `${countMaskedRows(masked)} row(s) masked ✅`
+    : !hasMaskingRules(config.masking)
+      ? "Not configured (masking.tables)"
+      : values["no-mask"]
+        ? "Skipped (--no-mask) ⚠️"
+        : "Nothing to mask (schema only)";
+  const migrate = migrateCommand ?? "bun run db:migrate";
+  const nextSteps = [
+    ...(worktree ? [`cd ${worktree.projectPath}`, "Run: bun install"] : []),
+    ...(migrations.notApplied
+      ? [`Run: ${migrate} ⚠️  the branch is not migrated yet`]
+      : migrations.skipped
+        ? [`Run: ${migrate} (if needed)`]
+        : []),
+    ...(worktree ? [`Run: bun run dev -- --port ${worktree.port}`] : []),
+    ...(schemaOnly && !seedCommand && !reuse
+      ? ["Add data to the empty tables, or use --seed next time"]
+      : []),
+    "Start developing your feature",
+    ...(expiresAt
+      ? [
+          `The database branch will automatically be deleted on ${new Date(expiresAt).toLocaleDateString()}`,
+        ]
+      : []),
+  ];
+  const expires = !expiresAt
+    ? "Never"
+    : reuse
+      ? new Date(expiresAt).toLocaleDateString()
+      : `${new Date(expiresAt).toLocaleDateString()} (${describeDuration(settings.ttlMs)})`;
+  const neonBranch = `${featureBranch.name} (${featureBranch.id})${reuse ? " reused" : ""}`;
+
+  console.log("\n🎉 Feature branch initialization complete!");
+  console.log(`
+┌─ Summary ─────────────────────────────────────────────────────────────────┐
+│ Git Branch:     ${branchName.padEnd(57)} │
+│ Neon Branch:    ${neonBranch.padEnd(57)} │
+│ Parent Branch:  ${parentBranch.name.padEnd(57)} │
+│ Branched At:    ${(reuse ? `Existing branch, created ${new Date(featureBranch.created_at).toLocaleDateString()}` : branchPoint ? describeBranchPoint(branchPoint) : "Latest state of the parent").padEnd(57)} │
+│ Data:           ${data.padEnd(57)} │
+│ Migrations:     ${migrationStatus.padEnd(57)} │
+│ Masking:        ${maskingStatus.padEnd(57)} │
+│ Expires:        ${expires.padEnd(57)} │
+│ Worktree:       ${(worktree ? worktree.path : "None, checked out here").padEnd(57)} │
+│ Database URL:   ${(worktree ? "Updated in the worktree's .env file" : "Updated in .env file").padEnd(57)} │
+│ Connection:     ${(pooled ? "Pooled connection enabled" : "Direct connection").padEnd(57)} │
+│ Compute:        ${(readWriteEndpoint ? describeEndpointCompute(readWriteEndpoint) : "Unknown").padEnd(57)} │
+│ Read Replica:   ${(replica ? `${replica.endpoint.id} (READ_DATABASE_URL)` : "None").padEnd(57)} │
+└───────────────────────────────────────────────────────────────────────────┘
+
+💡 Next steps:
+${nextSteps.map((step, index) => `   ${index + 1}. ${step}`).join("\n")}
+    `);
+}
+
+export const featureInit = defineCommand({
+  name: "feature init",
+  arguments: "[branch-name]",
+  summary:
+    "Create a git branch and a Neon database branch for a new feature and point DATABASE_URL at it.",
+  description: [
+    "Without a branch name the current git branch is used.",
+    "The database branch is created from the development branch and expires after",
+    "ttl.featureDays (default 14) days, see neon-flow.config.ts, or after --ttl.",
+    "--parent branches from another branch, --at from a point in its history.",
+    "--schema-only copies tables but no rows, for parents with sensitive data.",
+    "Pending Drizzle migrations are applied with migrations.command unless --no-migrate.",
+    "Columns in masking.tables are rewritten with fake values before .env points at the branch.",
+    "--worktree leaves this checkout alone, so several features can run side by side, and migrates from the worktree.",
+    "Rerunning it reuses the feature's existing Neon branch and repairs .env, --recreate starts over.",
+    "Compute size and suspend timeout come from compute in neon-flow.config.ts or the flags below,",
+    "--read-replica adds a read-only endpoint and writes its connection string to READ_DATABASE_URL.",
+  ],
+  options: featureInitOptions,
+  examples: [
+    "neon-flow feature init andrelandgraf/feature-name",
+    "neon-flow feature init andrelandgraf/fix-checkout --parent production",
+    "neon-flow feature init andrelandgraf/bug-1234 --parent production --at 2025-01-14T09:30:00Z",
+    "neon-flow feature init andrelandgraf/contacts-ui --schema-only --seed",
+    "neon-flow feature init andrelandgraf/feature-name --no-migrate",
+    "neon-flow feature init andrelandgraf/feature-name --worktree",
+    "neon-flow feature init andrelandgraf/feature-name --recreate",
+    "neon-flow feature init andrelandgraf/long-migration --ttl 30d",
+    "neon-flow feature init andrelandgraf/perf --min-cu 1 --max-cu 4 --read-replica",
+    "neon-flow feature init andrelandgraf/feature-name --dry-run",
+    "git checkout -b andrelandgraf/feature-name && neon-flow feature init",
+  ],
+  troubleshooting: [
+    "Ensure NEON_API_KEY and NEON_PROJECT_ID are set",
+    "Check that you have access to the Neon project",
+    "Verify git is properly configured",
+  ],
+
+  async run({
+    positionals,
+    values,
+    config,
+  }): Promise<FeatureInitResult | DryRunResult> {
+    const plan = createPlan(values["dry-run"] === true);
+    let settings = await resolveSettings(positionals, values, config);
+    const { branchName } = settings;
+    const neon = createNeonClientFromEnv();
+
+    console.log(`🚀 Initializing new feature branch: ${branchName}`);
+
+    const target = await findTarget(neon, settings, values, config);
+    const { neonBranchName, reuse, parentBranch } = target;
+    const worktree = await checkoutFeature(
+      plan,
+      branchName,
+      neonBranchName,
+      values.worktree === true,
+      config,
+    );
+    if (worktree) {
+      settings = worktreeMigrations(settings, worktree, config);
+    }
+    const {
+      branch: featureBranch,
+      operations,
+      connectionUri,
+      expiresAt,
+    } = await createOrReuseBranch(neon, plan, settings, target);
+
+    if (plan.dryRun) {
+      await planRemainingSteps(
+        neon,
+        plan,
+        settings,
+        neonBranchName,
+        featureBranch,
+        worktree,
+        config,
+      );
+      return plan.finish();
+    }
+
+    if (!featureBranch) {
+      throw new NeonFlowError(
+        "No branch received from Neon API",
+        EXIT_CODES.api,
+      );
+    }
+
+    // Step 4: Wait until the branch and its compute endpoint are ready
+    await waitForOperations(neon, operations);
+    console.log("✅ Database branch is ready");
+
+    const connection = await connectToBranch(
+      neon,
+      featureBranch,
+      connectionUri,
+      settings.readReplica,
+    );
+    const { databaseUrl, pooled, readWriteEndpoint, replica } = connection;
+
+    const migrations = await migrateFeatureBranch(
+      neon,
+      settings,
+      featureBranch,
+      parentBranch,
+      databaseUrl,
+      config,
+    );
+
+    const masked = settings.mask
+      ? await maskFeatureBranch(
+          plan,
+          branchName,
+          featureBranch,
+          target.branches,
+          databaseUrl,
+          config,
+        )
+      : null;
+
+    // Step 8: Update .env file with new DATABASE_URL
+    console.log("📝 Updating .env file with new database connection...");
+    writeFeatureEnv(
+      plan,
+      worktree,
+      neonBranchName,
+      databaseUrl,
+      replica?.url ?? null,
+    );
+    console.log(
+      `✅ ${worktree ? envFilePath(worktree.projectPath) : ".env file"} updated with new DATABASE_URL${replica?.url ? " and READ_DATABASE_URL" : ""}`,
+    );
+
+    if (settings.seedCommand) {
+      await seedFeatureBranch(plan, settings.seedCommand, databaseUrl);
+    }
+
+    printSummary(
+      settings,
+      target,
+      featureBranch,
+      expiresAt,
+      worktree,
+      connection,
+      migrations,
+      masked,
+      values,
+      config,
+    );
+
+    return {
+      dryRun: false,
+      gitBranch: branchName,
+      branch: summarizeBranch(featureBranch),
+      parentBranch: summarizeBranch(parentBranch),
+      parentLsn: featureBranch.parent_lsn ?? null,
+      parentTimestamp: featureBranch.parent_timestamp ?? null,
+      host: new URL(databaseUrl).hostname,
+      pooled,
+      schemaOnly: featureBranch.init_source === "schema-only",
+      seeded: settings.seedCommand !== null,
+      migrations: {
+        applied: migrations.applied,
+        skipped: migrations.skipped,
+      },
+      masked,
+      worktree,
+      reused: reuse,
+      compute: readWriteEndpoint
+        ? {
+            minCu: readWriteEndpoint.autoscaling_limit_min_cu,
+            maxCu: readWriteEndpoint.autoscaling_limit_max_cu,
+            suspendTimeoutSeconds: readWriteEndpoint.suspend_timeout_seconds,
+          }
+        : null,
+      readReplicaHost: replica?.endpoint.host ?? null,
+    };
+  },
+});
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import { EXIT_CODES } from "../errors";
+import { withProject, type TestProject } from "../test-project";
+import type { FeaturePromoteResult } from "./feature-promote";
+
+// Commits the migrations in the project and pushes them to origin/main
+async function mergeMigrations(project: TestProject, ...tags: string[]) {
+  for (const tag of tags) {
+    project.addMigration(tag);
+  }
+  await project.git("add", "migrations");
+  await project.git("commit", "--quiet", "-m", `Add ${tags.join(", ")}`);
+  await project.git("push", "--quiet");
+}
+
+describe("feature promote", () => {
+  test(
+    "applies the merged migrations to development",
+    withProject(async (project) => {
+      project.writeConfig({ migrations: { command: project.migrateCommand } });
+      await mergeMigrations(project, "0000_init", "0001_contacts");
+
+      const result = await project.result<FeaturePromoteResult>(
+        "feature",
+        "promote",
+      );
+
+      expect(result.branch.name).toBe("development");
+      expect(result.commit).toBe(
+        await project.git("rev-parse", "--short", "HEAD"),
+      );
+      expect(result.applied).toEqual(["0000_init", "0001_contacts"]);
+      expect(result.journalEntries).toBe(2);
+      expect(project.migrations("development")).toHaveLength(2);
+
+      await mergeMigrations(project, "0002_search");
+      const again = await project.result<FeaturePromoteResult>(
+        "feature",
+        "promote",
+      );
+      expect(again.applied).toEqual(["0002_search"]);
+    }),
+  );
+
+  test(
+    "refuses a commit that isn't merged into origin's base branch",
+    withProject(async (project) => {
+      project.writeConfig({ migrations: { command: project.migrateCommand } });
+      await project.git("checkout", "--quiet", "-b", "alice/search");
+      project.addMigration("0000_init");
+      await project.git("add", "migrations");
+      await project.git("commit", "--quiet", "-m", "Add 0000_init");
+
+      const { exitCode, output } = await project.run("feature", "promote");
+
+      expect(exitCode).toBe(EXIT_CODES.usage);
+      expect(!output.ok && output.error.message).toContain(
+        "is not merged into origin/main",
+      );
+      expect(project.migrations("development")).toBeUndefined();
+    }),
+  );
+
+  test(
+    "refuses uncommitted changes in migrations.dir",
+    withProject(async (project) => {
+      project.writeConfig({ migrations: { command: project.migrateCommand } });
+      await mergeMigrations(project, "0000_init");
+      project.addMigration("0001_local");
+
+      const { exitCode, output } = await project.run("feature", "promote");
+
+      expect(exitCode).toBe(EXIT_CODES.usage);
+      expect(!output.ok && output.error.message).toContain(
+        "migrations has uncommitted changes",
+      );
+      expect(project.migrations("development")).toBeUndefined();
+    }),
+  );
+
+  test(
+    "refuses a development branch that has diverged from the journal",
+    withProject(async (project) => {
+      project.writeConfig({ migrations: { command: project.migrateCommand } });
+      await mergeMigrations(project, "0000_init");
+      // A feature's migration applied to development before it was merged
+      const unmerged = { hash: "unmerged", created_at: "1700000500000" };
+      project.fake.state.migrations.set(
+        project.branchNamed("development")!.id,
+        [unmerged],
+      );
+
+      const { exitCode, output } = await project.run("feature", "promote");
+
+      expect(exitCode).toBe(EXIT_CODES.failure);
+      expect(!output.ok && output.error.message).toContain(
+        "development has diverged from the journal",
+      );
+      expect(project.migrations("development")).toEqual([unmerged]);
+    }),
+  );
+});
@@ -0,0 +1,229 @@
+import {
+  findDevelopmentBranch,
+  findProductionBranch,
+  summarizeBranch,
+  type BranchSummary,
+} from "../branches";
+import { createNeonClientFromEnv } from "../client";
+import { defineCommand } from "../command";
+import { branchDatabaseUrl } from "../connection";
+import {
+  BranchNotFoundError,
+  ConfigError,
+  EXIT_CODES,
+  NeonFlowError,
+  ProtectedBranchError,
+  UsageError,
+} from "../errors";
+import { commitExists, currentCommit, git } from "../git";
+import {
+  findMigrationConflicts,
+  findPendingMigrations,
+  migrateBranch,
+  migrationJournalPath,
+  readMigrationJournal,
+  verifyMigrationJournal,
+} from "../migrations";
+import { DRY_RUN_OPTION, createPlan, type DryRunResult } from "../plan";
+
+export interface FeaturePromoteResult {
+  dryRun: false;
+  // The development branch the migrations were applied to
+  branch: BranchSummary;
+  // Checked out commit the migrations were read from
+  commit: string;
+  applied: string[];
+  // Entries in the journal, all of them applied now
+  journalEntries: number;
+}
+
+export const featurePromote = defineCommand({
+  name: "feature promote",
+  summary:
+    "Apply the migrations merged into the base branch to the development branch new features are created from.",
+  description: [
+    "Run it from a checkout of git.baseBranch after a feature is merged, locally or in CI.",
+    "The checked out commit must be merged into origin/<git.baseBranch> and migrations.dir must have no uncommitted changes.",
+    "Refuses to run when the journal is invalid or the development branch has diverged from it: migrations applied that aren't merged, changed since they were applied or older than the latest applied one.",
+    "Afterwards every journal entry must be recorded as applied on the development branch.",
+  ],
+  options: {
+    "no-fetch": {
+      type: "boolean",
+      description: "Use origin's branches as of the last fetch",
+    },
+    "dry-run": DRY_RUN_OPTION,
+  },
+  examples: [
+    "neon-flow feature promote",
+    "neon-flow feature promote --json",
+    "neon-flow feature promote --dry-run",
+  ],
+  troubleshooting: [
+    "Ensure NEON_API_KEY and NEON_PROJECT_ID are set",
+    "Check out the latest base branch, e.g. git checkout main && git pull",
+    "If the development branch has diverged, remove the unmerged migrations from it or recreate it from production",
+    "Run the migrate command on its own to see its errors",
+  ],
+
+  async run({ values, config }): Promise<FeaturePromoteResult | DryRunResult> {
+    const plan = createPlan(values["dry-run"] === true);
+    const baseBranch = config.git.baseBranch;
+    const migrateCommand = config.migrations.command;
+
+    if (!migrateCommand) {
+      throw new ConfigError(
+        "migrations.command is null, set it in neon-flow.config.ts to promote migrations",
+      );
+    }
+
+    // Step 1: Only promote merged migrations. Fetching reads in dry runs too
+    if (!values["no-fetch"]) {
+      console.log("🔄 Fetching branches from origin...");
+      try {
+        await git("fetch", "--quiet", "origin", baseBranch);
+      } catch (error) {
+        console.warn(
+          `⚠️  Could not fetch from origin, using the branches of the last fetch: ${error}`,
+        );
+      }
+    }
+
+    const trunk = (await commitExists(`refs/remotes/origin/${baseBranch}`))
+      ? `origin/${baseBranch}`
+      : baseBranch;
+    if (!(await commitExists(trunk))) {
+      throw new UsageError(
+        `Base branch '${baseBranch}' not found, set git.baseBranch in neon-flow.config.ts`,
+      );
+    }
+
+    const commit = await currentCommit();
+    try {
+      await git("merge-base", "--is-ancestor", "HEAD", trunk);
+    } catch {
+      throw new UsageError(
+        `The checked out commit ${commit} is not merged into ${trunk}. Check out ${baseBranch} to promote its migrations`,
+      );
+    }
+
+    const uncommitted = await git(
+      "status",
+      "--porcelain",
+      "--",
+      config.migrations.dir,
+    );
+    if (uncommitted) {
+      throw new UsageError(
+        `${config.migrations.dir} has uncommitted changes, only merged migrations are promoted:\n${uncommitted}`,
+      );
+    }
+
+    // Step 2: Verify the journal
+    const journal = readMigrationJournal(config.migrations.dir);
+    if (!journal) {
+      throw new ConfigError(
+        `${migrationJournalPath(config.migrations.dir)} not found, set migrations.dir in neon-flow.config.ts`,
+      );
+    }
+    const problems = verifyMigrationJournal(config.migrations.dir, journal);
+    if (problems.length > 0) {
+      throw new ConfigError(
+        `Invalid ${migrationJournalPath(config.migrations.dir)}:\n${problems.map((problem) => `   • ${problem}`).join("\n")}`,
+      );
+    }
+    console.log(
+      `✅ ${migrationJournalPath(config.migrations.dir)} is valid at ${commit}, ${journal.length} migration(s)`,
+    );
+
+    // Step 3: Find the development branch and check it hasn't diverged
+    const neon = createNeonClientFromEnv();
+    console.log("🔍 Finding development database branch...");
+    const { branches } = await neon.branches.listAll();
+    const developmentBranch = findDevelopmentBranch(branches, config);
+
+    if (!developmentBranch) {
+      throw new BranchNotFoundError(
+        `Development branch not found. Looking for a branch named ${config.branches.development.map((name) => `'${name}'`).join(", ")}`,
+      );
+    }
+    if (findProductionBranch(branches, config)?.id === developmentBranch.id) {
+      throw new ProtectedBranchError(
+        developmentBranch.name,
+        config.branches.production,
+      );
+    }
+    console.log(`✅ Found ${developmentBranch.name} (${developmentBranch.id})`);
+
+    const databaseUrl = await branchDatabaseUrl(neon, developmentBranch.id);
+    if (!databaseUrl) {
+      throw new NeonFlowError(
+        `Branch '${developmentBranch.name}' has no database to connect to`,
+        EXIT_CODES.api,
+      );
+    }
+
+    const conflicts = await findMigrationConflicts(
+      databaseUrl,
+      config.migrations,
+      journal,
+    );
+    if (conflicts.length > 0) {
+      throw new NeonFlowError(
+        `${developmentBranch.name} has diverged from the journal at ${commit}:\n${conflicts.map((conflict) => `   • ${conflict}`).join("\n")}`,
+      );
+    }
+
+    // Step 4: Apply the pending ones, migrateBranch checks they were
+    // recorded afterwards
+    if (plan.dryRun) {
+      const pending = await findPendingMigrations(
+        databaseUrl,
+        config.migrations.table,
+        journal,
+      );
+      if (pending.length === 0) {
+        console.log("✅ No pending migrations");
+      } else {
+        console.log(`🧱 ${pending.length} pending migration(s):`);
+        for (const entry of pending) {
+          console.log(`   • ${entry.tag}`);
+        }
+        await plan.run(migrateCommand, {});
+      }
+      return plan.finish();
+    }
+
+    console.log(
+      `🧱 Checking ${developmentBranch.name} for pending migrations...`,
+    );
+    const applied = await migrateBranch(
+      neon,
+      { ...config.migrations, command: migrateCommand },
+      journal,
+      databaseUrl,
+      null,
+    );
+
+    console.log("\n🎉 Migrations promoted!");
+    console.log(`
+┌─ Summary ─────────────────────────────────────────────────────────────────┐
+│ Neon Branch:    ${`${developmentBranch.name} (${developmentBranch.id})`.padEnd(57)} │
+│ Commit:         ${`${commit} (merged into ${trunk})`.padEnd(57)} │
+│ Migrations:     ${(applied.length > 0 ? `${applied.length} applied ✅` : "Up to date ✅").padEnd(57)} │
+│ Journal:        ${`${journal.length} entries, all applied ✅`.padEnd(57)} │
+└───────────────────────────────────────────────────────────────────────────┘
+`);
+    console.log(
+      "💡 New feature branches start from this schema, update existing ones with: neon-flow feature reset",
+    );
+
+    return {
+      dryRun: false,
+      branch: summarizeBranch(developmentBranch),
+      commit,
+      applied,
+      journalEntries: journal.length,
+    };
+  },
+});
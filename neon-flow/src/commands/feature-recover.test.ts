@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+import { GIT_BRANCH_ANNOTATION, RECOVERED_FROM_ANNOTATION } from "../branches";
+import { EXIT_CODES } from "../errors";
+import { withProject, type TestProject } from "../test-project";
+import type { FeatureCleanupResult } from "./feature-cleanup";
+import type { FeatureRecoverResult } from "./feature-recover";
+
+async function archive(
+  project: TestProject,
+  gitBranch: string,
+): Promise<FeatureCleanupResult> {
+  await project.result("feature", "init", gitBranch);
+  return project.result<FeatureCleanupResult>(
+    "feature",
+    "cleanup",
+    gitBranch,
+    "--archive",
+  );
+}
+
+describe("feature recover", () => {
+  test(
+    "restores the archive into an annotated branch and points .env at it",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/search");
+      await project.git("push", "--quiet", "origin", "alice/search");
+      const { archive: snapshot } = await project.result<FeatureCleanupResult>(
+        "feature",
+        "cleanup",
+        "--archive",
+      );
+
+      const result = await project.result<FeatureRecoverResult>(
+        "feature",
+        "recover",
+        "alice/search",
+      );
+
+      expect(result.snapshot.id).toBe(snapshot!.id);
+      const branch = project.fake.state.branches.get(result.branch.id);
+      expect(branch?.name).toBe("alice-search");
+      expect(project.fake.state.annotations.get(branch!.id)).toEqual({
+        [GIT_BRANCH_ANNOTATION]: "alice/search",
+        [RECOVERED_FROM_ANNOTATION]: snapshot!.name,
+      });
+      expect(
+        project.branchOfDatabaseUrl(project.envValue("DATABASE_URL"))?.id,
+      ).toBe(branch!.id);
+      expect(result.gitBranchCheckedOut).toBe(true);
+      expect(await project.git("branch", "--show-current")).toBe(
+        "alice/search",
+      );
+    }),
+  );
+
+  test(
+    "tells apart the archives of git branches with the same Neon name",
+    withProject(async (project) => {
+      const underscore = await archive(project, "alice/foo_bar");
+      const dash = await archive(project, "alice/foo-bar");
+      expect(underscore.deletedBranch?.name).toBe("alice-foo-bar");
+      expect(dash.deletedBranch?.name).toBe("alice-foo-bar");
+      expect(underscore.archive!.name).not.toBe(dash.archive!.name);
+
+      const result = await project.result<FeatureRecoverResult>(
+        "feature",
+        "recover",
+        "alice/foo_bar",
+      );
+
+      expect(result.snapshot.id).toBe(underscore.archive!.id);
+      expect(
+        project.fake.state.annotations.get(result.branch.id)?.[
+          GIT_BRANCH_ANNOTATION
+        ],
+      ).toBe("alice/foo_bar");
+    }),
+  );
+
+  test(
+    "fails with notFound when the branch was never archived",
+    withProject(async (project) => {
+      await archive(project, "alice/search");
+
+      const { exitCode, output } = await project.run(
+        "feature",
+        "recover",
+        "alice/filters",
+      );
+
+      expect(exitCode).toBe(EXIT_CODES.notFound);
+      expect(!output.ok && output.error.name).toBe("SnapshotNotFoundError");
+    }),
+  );
+});
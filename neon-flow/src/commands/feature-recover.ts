@@ -0,0 +1,263 @@
+import {
+  GIT_BRANCH_ANNOTATION,
+  RECOVERED_FROM_ANNOTATION,
+  archiveSnapshotName,
+  assertNotProtected,
+  featureBranchName,
+  findFeatureBranch,
+  isArchiveOf,
+  summarizeBranch,
+  type BranchSummary,
+} from "../branches";
+import { createNeonClientFromEnv } from "../client";
+import { defineCommand } from "../command";
+import { branchDatabaseUrl } from "../connection";
+import { daysToMs, describeDuration, parseDuration } from "../duration";
+import {
+  EXIT_CODES,
+  NeonFlowError,
+  SnapshotNotFoundError,
+  UsageError,
+} from "../errors";
+import { branchExists, commitExists, currentGitBranch } from "../git";
+import { waitForOperations } from "../operations";
+import { DRY_RUN_OPTION, createPlan, type DryRunResult } from "../plan";
+import type { RestoreSnapshotRequest, UpdateBranchRequest } from "../types";
+
+export interface FeatureRecoverResult {
+  dryRun: false;
+  gitBranch: string;
+  snapshot: {
+    id: string;
+    name: string;
+    createdAt: string;
+  };
+  // The branch restored from the snapshot
+  branch: BranchSummary;
+  host: string;
+  // Whether the git branch still existed, locally or on origin, and was
+  // checked out
+  gitBranchCheckedOut: boolean;
+}
+
+export const featureRecover = defineCommand({
+  name: "feature recover",
+  arguments: "<branch>",
+  summary:
+    "Restore the snapshot feature cleanup --archive took of a feature's Neon branch and point DATABASE_URL at it.",
+  description: [
+    "Restores the newest archive of the git branch into a new branch for it, recording the git branch on it like feature init.",
+    "The git branch is checked out when it still exists locally or on origin.",
+    "The restored branch expires after ttl.featureDays (default 14) days, or after --ttl. The snapshot is kept until it expires.",
+  ],
+  options: {
+    ttl: {
+      type: "string",
+      valueName: "<duration>",
+      description:
+        "Delete the restored branch after this long instead of ttl.featureDays, e.g. 30d",
+    },
+    "dry-run": DRY_RUN_OPTION,
+  },
+  examples: [
+    "neon-flow feature recover andrelandgraf/feature-name",
+    "neon-flow feature recover andrelandgraf/feature-name --ttl 3d",
+    "neon-flow feature recover andrelandgraf/feature-name --dry-run",
+  ],
+  troubleshooting: [
+    "Ensure NEON_API_KEY and NEON_PROJECT_ID are set",
+    "Check that the branch was cleaned up with --archive and the snapshot hasn't expired",
+    "Verify the branch name is correct",
+  ],
+
+  async run({
+    positionals,
+    values,
+    config,
+  }): Promise<FeatureRecoverResult | DryRunResult> {
+    const plan = createPlan(values["dry-run"] === true);
+    const ttlMs = values.ttl
+      ? parseDuration(values.ttl, "--ttl")
+      : daysToMs(config.ttl.featureDays);
+    const branchName = positionals[0];
+
+    if (!branchName) {
+      throw new UsageError("Please provide the git branch to recover");
+    }
+    assertNotProtected(branchName, config);
+
+    const neon = createNeonClientFromEnv();
+
+    // Step 1: Find the archive, the newest one when the branch was
+    // archived more than once
+    console.log(`📸 Looking for an archive of ${branchName}...`);
+    const [{ snapshots }, { branches, annotations }] = await Promise.all([
+      neon.snapshots.listAll(),
+      neon.branches.listAll(),
+    ]);
+    const snapshot = snapshots
+      .filter((s) => isArchiveOf(s.name, branchName, config))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+
+    if (!snapshot) {
+      const archives = snapshots.filter((s) =>
+        s.name.startsWith(config.snapshots.archivePrefix),
+      );
+      if (archives.length > 0) {
+        console.error("   Available archives:");
+        for (const archive of archives) {
+          console.error(
+            `     • ${archive.name} (${new Date(archive.created_at).toLocaleDateString()})`,
+          );
+        }
+      }
+      console.error(
+        `\n💡 Archive a feature when cleaning it up: neon-flow feature cleanup ${branchName} --archive`,
+      );
+      throw new SnapshotNotFoundError(
+        archiveSnapshotName(
+          config.branches.name(branchName),
+          branchName,
+          config,
+        ),
+      );
+    }
+
+    if (snapshot.status && snapshot.status !== "active") {
+      throw new NeonFlowError(
+        `Archive is not ready: ${snapshot.status}. Wait for the snapshot to become active before recovering`,
+        EXIT_CODES.api,
+      );
+    }
+
+    console.log(
+      `✅ Found archive: ${snapshot.name} from ${new Date(snapshot.created_at).toLocaleString()}`,
+    );
+
+    // The feature still has a branch, feature init reconnects to it
+    const existing = findFeatureBranch(
+      branches,
+      annotations,
+      branchName,
+      config,
+    );
+    if (existing) {
+      throw new UsageError(
+        `'${branchName}' still has a Neon branch: ${existing.name} (${existing.id}). Run neon-flow feature init ${branchName} to use it`,
+      );
+    }
+
+    // Step 2: Restore it into a new branch named like the one feature init
+    // creates, so the other feature commands find it
+    const neonBranchName = featureBranchName(branches, branchName, config);
+    console.log(`🎋 Restoring into branch: ${neonBranchName}...`);
+    const restoreRequest: RestoreSnapshotRequest = {
+      name: neonBranchName,
+      finalize_restore: false,
+      expire_at: new Date(Date.now() + ttlMs).toISOString(),
+    };
+    const restoreData = await plan.neon(
+      {
+        method: "POST",
+        path: `/projects/${neon.projectId}/snapshots/${snapshot.id}/restore`,
+        body: restoreRequest,
+      },
+      () => neon.snapshots.restore(snapshot.id, restoreRequest),
+    );
+    if (restoreData) {
+      await waitForOperations(neon, restoreData.operations);
+      console.log(
+        `✅ Database branch restored: ${restoreData.branch.name} (${restoreData.branch.id})`,
+      );
+    }
+
+    // Record the git branch on it like feature init does, otherwise any git
+    // branch with the derived name would claim it
+    const branchId = restoreData?.branch.id ?? `<id of ${neonBranchName}>`;
+    const annotateRequest: UpdateBranchRequest = {
+      branch: {},
+      annotation_value: {
+        [GIT_BRANCH_ANNOTATION]: branchName,
+        [RECOVERED_FROM_ANNOTATION]: snapshot.name,
+      },
+    };
+    await plan.neon(
+      {
+        method: "PATCH",
+        path: `/projects/${neon.projectId}/branches/${branchId}`,
+        body: annotateRequest,
+      },
+      () => neon.branches.update(branchId, annotateRequest),
+    );
+
+    // Step 3: Check out the git branch if it's still around
+    let gitBranchCheckedOut = false;
+    if ((await currentGitBranch()) === branchName) {
+      gitBranchCheckedOut = true;
+    } else if (await branchExists(branchName)) {
+      await plan.git("checkout", branchName);
+      gitBranchCheckedOut = true;
+    } else if (await commitExists(`refs/remotes/origin/${branchName}`)) {
+      await plan.git("checkout", "--track", `origin/${branchName}`);
+      gitBranchCheckedOut = true;
+    } else {
+      console.warn(
+        `⚠️  Git branch '${branchName}' no longer exists, staying on the current branch`,
+      );
+    }
+    if (gitBranchCheckedOut) {
+      plan.done(`✅ Checked out git branch: ${branchName}`);
+    }
+
+    if (!restoreData) {
+      plan.updateEnvFile({
+        DATABASE_URL: `<pooled connection string of ${neonBranchName}>`,
+        READ_DATABASE_URL: null,
+      });
+      return plan.finish();
+    }
+
+    const branch = restoreData.branch;
+
+    // Step 4: Point .env at it
+    const databaseUrl = await branchDatabaseUrl(neon, branch.id);
+    if (!databaseUrl) {
+      throw new NeonFlowError(
+        `Restored branch '${branch.name}' has no database to connect to`,
+        EXIT_CODES.api,
+      );
+    }
+    // Archives have no read replica, feature init --recreate adds one
+    plan.updateEnvFile(
+      { DATABASE_URL: databaseUrl, READ_DATABASE_URL: null },
+      { branch: branch.name },
+    );
+    console.log("✅ .env file updated with new DATABASE_URL");
+
+    const expiresAt = branch.expire_at ?? restoreRequest.expire_at;
+
+    console.log("\n🎉 Feature recovered!");
+    console.log(`
+┌─ Summary ─────────────────────────────────────────────────────────────────┐
+│ Git Branch:     ${`${branchName}${gitBranchCheckedOut ? "" : " (not checked out ⚠️)"}`.padEnd(57)} │
+│ Neon Branch:    ${`${branch.name} (${branch.id})`.padEnd(57)} │
+│ Archive:        ${`${snapshot.name} (${new Date(snapshot.created_at).toLocaleDateString()})`.padEnd(57)} │
+│ Expires:        ${(expiresAt ? `${new Date(expiresAt).toLocaleDateString()} (${describeDuration(ttlMs)})` : "No expiration set").padEnd(57)} │
+│ Database URL:   ${"Updated in .env file".padEnd(57)} │
+└───────────────────────────────────────────────────────────────────────────┘
+`);
+
+    return {
+      dryRun: false,
+      gitBranch: branchName,
+      snapshot: {
+        id: snapshot.id,
+        name: snapshot.name,
+        createdAt: snapshot.created_at,
+      },
+      branch: summarizeBranch(branch),
+      host: new URL(databaseUrl).hostname,
+      gitBranchCheckedOut,
+    };
+  },
+});
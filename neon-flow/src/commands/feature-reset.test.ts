@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "path";
+import { EXIT_CODES } from "../errors";
+import { migrationHash } from "../migrations";
+import { withProject } from "../test-project";
+import type { FeatureResetResult } from "./feature-reset";
+
+describe("feature reset", () => {
+  test(
+    "resets the checked out feature's branch in place",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/search");
+      const branch = project.branchNamed("alice-search")!;
+      const createdFrom = branch.parent_timestamp;
+      const databaseUrl = project.envValue("DATABASE_URL");
+      // The fake's timestamps only change once a millisecond passed
+      await Bun.sleep(5);
+
+      const result = await project.result<FeatureResetResult>(
+        "feature",
+        "reset",
+      );
+
+      expect(result.branch.id).toBe(branch.id);
+      expect(result.parentBranch.name).toBe("development");
+      expect(result.envPointsAtBranch).toBe(true);
+      expect(branch.parent_timestamp).not.toBe(createdFrom);
+      // Same branch, same connection string
+      expect(project.envValue("DATABASE_URL")).toBe(databaseUrl);
+    }),
+  );
+
+  test(
+    "applies the feature's migrations again on top of the parent's",
+    withProject(async (project) => {
+      project.writeConfig({ migrations: { command: project.migrateCommand } });
+      const init = project.addMigration("0000_init");
+      project.fake.state.migrations.set(
+        project.branchNamed("development")!.id,
+        [
+          {
+            hash: migrationHash(join(project.dir, "migrations"), init)!,
+            created_at: String(init.when),
+          },
+        ],
+      );
+      project.addMigration("0001_search");
+      await project.result("feature", "init", "alice/search");
+      expect(project.migrations("alice-search")).toHaveLength(2);
+
+      const result = await project.result<FeatureResetResult>(
+        "feature",
+        "reset",
+      );
+
+      expect(result.migrations).toEqual({
+        applied: ["0001_search"],
+        skipped: null,
+      });
+      expect(project.migrations("alice-search")).toHaveLength(2);
+    }),
+  );
+
+  test(
+    "refuses to migrate a branch that isn't checked out unless --no-migrate",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/search");
+      project.addMigration("0000_init");
+      await project.git("checkout", "--quiet", "main");
+      const branch = project.branchNamed("alice-search")!;
+      const updatedAt = branch.updated_at;
+
+      const { exitCode, output } = await project.run(
+        "feature",
+        "reset",
+        "alice/search",
+      );
+
+      expect(exitCode).toBe(EXIT_CODES.usage);
+      expect(!output.ok && output.error.message).toContain("--no-migrate");
+      expect(branch.updated_at).toBe(updatedAt);
+
+      const result = await project.result<FeatureResetResult>(
+        "feature",
+        "reset",
+        "alice/search",
+        "--no-migrate",
+      );
+      expect(result.branch.id).toBe(branch.id);
+      expect(result.migrations).toEqual({
+        applied: [],
+        skipped: "--no-migrate",
+      });
+    }),
+  );
+});
@@ -0,0 +1,288 @@
+import {
+  assertNotProductionOrProtected,
+  assertNotProtected,
+  findFeatureBranch,
+  isProtectedBranch,
+  printAvailableBranches,
+  summarizeBranch,
+  type BranchSummary,
+} from "../branches";
+import { createNeonClientFromEnv } from "../client";
+import { defineCommand } from "../command";
+import { branchDatabaseUrl } from "../connection";
+import { getEnvValue, readEnvFile } from "../env-file";
+import {
+  BranchNotFoundError,
+  EXIT_CODES,
+  NeonFlowError,
+  UsageError,
+} from "../errors";
+import { currentGitBranch, findWorktree } from "../git";
+import { countMaskedRows, hasMaskingRules } from "../masking";
+import {
+  migrateBranch,
+  migrationJournalPath,
+  readMigrationJournal,
+} from "../migrations";
+import { runningBranchOperations, waitForOperations } from "../operations";
+import { DRY_RUN_OPTION, createPlan, type DryRunResult } from "../plan";
+import type { RestoreBranchRequest } from "../types";
+
+export interface FeatureResetResult {
+  dryRun: false;
+  gitBranch: string;
+  branch: BranchSummary;
+  // The branch whose latest state it now has
+  parentBranch: BranchSummary;
+  // Tags applied again after the reset, or why that was skipped
+  migrations: { applied: string[]; skipped: string | null };
+  // Rows rewritten per table in masking.tables, null without rules or
+  // with --no-mask
+  masked: Record<string, number> | null;
+  // Whether DATABASE_URL in .env points at the branch
+  envPointsAtBranch: boolean;
+}
+
+export const featureReset = defineCommand({
+  name: "feature reset",
+  arguments: "[branch-name]",
+  summary:
+    "Reset a feature's Neon branch to its parent's latest state and apply the feature's migrations again.",
+  description: [
+    "Without a branch name the current git branch is used. Another branch can only be reset with --no-migrate, the migrations come from this checkout.",
+    "The branch keeps its id and endpoints, so DATABASE_URL and READ_DATABASE_URL stay the same.",
+    "Everything written to the branch since it was created or last reset is replaced.",
+    "Migrations in migrations.dir the parent hasn't applied run with migrations.command, then masking.tables are masked again.",
+  ],
+  options: {
+    "no-migrate": {
+      type: "boolean",
+      description: "Leave the branch at the parent's schema",
+    },
+    "no-mask": {
+      type: "boolean",
+      description:
+        "Keep the parent's values in the columns listed in masking.tables",
+    },
+    "dry-run": DRY_RUN_OPTION,
+  },
+  examples: [
+    "neon-flow feature reset",
+    "neon-flow feature reset andrelandgraf/feature-name --no-migrate",
+    "neon-flow feature reset --dry-run",
+  ],
+  troubleshooting: [
+    "Ensure NEON_API_KEY and NEON_PROJECT_ID are set",
+    "Verify the branch name is correct",
+    "Schema-only branches can't be reset, use feature init --recreate instead",
+    "Run the migrate command on its own to see its errors",
+  ],
+
+  async run({
+    positionals,
+    values,
+    config,
+  }): Promise<FeatureResetResult | DryRunResult> {
+    const plan = createPlan(values["dry-run"] === true);
+    const mask = hasMaskingRules(config.masking) && !values["no-mask"];
+    const migrateCommand = config.migrations.command;
+    const journal =
+      values["no-migrate"] || !migrateCommand
+        ? null
+        : readMigrationJournal(config.migrations.dir);
+    let skipMigrations: string | null = null;
+    if (values["no-migrate"]) {
+      skipMigrations = "--no-migrate";
+    } else if (!migrateCommand) {
+      skipMigrations = "migrations.command is null";
+    } else if (!journal) {
+      skipMigrations = `${migrationJournalPath(config.migrations.dir)} not found`;
+    }
+    let branchName = positionals[0];
+    const currentBranch = await currentGitBranch();
+
+    if (!branchName) {
+      if (!currentBranch || isProtectedBranch(currentBranch, config)) {
+        throw new UsageError(
+          "Please provide a feature branch name or switch to the feature branch",
+        );
+      }
+
+      branchName = currentBranch;
+      console.log(`🔍 Using current git branch: ${branchName}`);
+    }
+
+    assertNotProtected(branchName, config);
+
+    // The migrations come from this checkout, another branch's may differ
+    if (migrateCommand && journal && branchName !== currentBranch) {
+      const worktree = await findWorktree(branchName);
+      throw new UsageError(
+        `'${branchName}' is not checked out here, its migrations may differ from this checkout's. ${worktree ? `Run feature reset in ${worktree.path}` : `Check it out first`} or pass --no-migrate`,
+      );
+    }
+
+    const neon = createNeonClientFromEnv();
+
+    // Step 1: Find the feature branch and its parent
+    console.log("🔍 Finding database branches...");
+    const { branches, annotations } = await neon.branches.listAll();
+    const featureBranch = findFeatureBranch(
+      branches,
+      annotations,
+      branchName,
+      config,
+    );
+
+    if (!featureBranch) {
+      printAvailableBranches(branches, console.error);
+      throw new BranchNotFoundError(
+        `Branch not found: no Neon branch for git branch '${branchName}'. Create one with neon-flow feature init ${branchName}`,
+        config.branches.name(branchName),
+      );
+    }
+
+    assertNotProductionOrProtected(featureBranch, branches, config);
+
+    if (featureBranch.init_source === "schema-only") {
+      throw new UsageError(
+        `'${featureBranch.name}' was created schema-only and can't be reset from its parent, use neon-flow feature init ${branchName} --recreate`,
+      );
+    }
+
+    const parentBranch = branches.find(
+      (branch) => branch.id === featureBranch.parent_id,
+    );
+    if (!parentBranch) {
+      throw new BranchNotFoundError(
+        `'${featureBranch.name}' has no parent branch to reset from`,
+        featureBranch.name,
+      );
+    }
+
+    console.log(
+      `✅ Found ${featureBranch.name} (${featureBranch.id}), parent: ${parentBranch.name}`,
+    );
+
+    // Step 2: Reset it once nothing else is running on it
+    const running = await runningBranchOperations(neon, featureBranch.id);
+    if (running.length > 0) {
+      await waitForOperations(neon, running);
+    }
+
+    console.log(
+      `🔄 Resetting ${featureBranch.name} from ${parentBranch.name}...`,
+    );
+    const restoreRequest: RestoreBranchRequest = {
+      source_branch_id: parentBranch.id,
+    };
+    const restoreData = await plan.neon(
+      {
+        method: "POST",
+        path: `/projects/${neon.projectId}/branches/${featureBranch.id}/restore`,
+        body: restoreRequest,
+      },
+      () => neon.branches.restore(featureBranch.id, restoreRequest),
+    );
+
+    const databaseUrl = await branchDatabaseUrl(neon, featureBranch.id);
+    if (!databaseUrl) {
+      throw new NeonFlowError(
+        `Branch '${featureBranch.name}' has no database to connect to`,
+        EXIT_CODES.api,
+      );
+    }
+
+    if (!restoreData) {
+      if (migrateCommand && journal) {
+        await plan.run(migrateCommand, {});
+      }
+      if (mask) {
+        await plan.mask(featureBranch.name, databaseUrl, config.masking);
+      }
+      return plan.finish();
+    }
+
+    await waitForOperations(neon, restoreData.operations);
+    console.log(`✅ ${featureBranch.name} now has ${parentBranch.name}'s data`);
+
+    // Step 3: Apply the feature's migrations again, the parent may not
+    // have them yet
+    let appliedMigrations: string[] = [];
+    let migrationCheckFailed = false;
+    if (migrateCommand && journal) {
+      console.log("🧱 Checking for pending migrations...");
+      try {
+        appliedMigrations = await migrateBranch(
+          neon,
+          { ...config.migrations, command: migrateCommand },
+          journal,
+          databaseUrl,
+          null,
+        );
+      } catch (error) {
+        if (error instanceof NeonFlowError) {
+          throw error;
+        }
+        // The branch is reset, only the check itself failed
+        migrationCheckFailed = true;
+        skipMigrations = `could not check: ${error instanceof Error ? error.message : error}`;
+        console.warn(`⚠️  Could not check for pending migrations: ${error}`);
+      }
+    }
+
+    // Step 4: The parent's data may hold personal data again
+    let masked: Record<string, number> | null = null;
+    if (mask) {
+      console.log("🎭 Masking personal data...");
+      try {
+        masked =
+          (await plan.mask(featureBranch.name, databaseUrl, config.masking)) ??
+          null;
+      } catch (error) {
+        console.error(
+          `⚠️  ${featureBranch.name} may hold unmasked data. Retry with 'neon-flow db mask ${featureBranch.name}'`,
+        );
+        throw error;
+      }
+      console.log(`✅ Masked ${countMaskedRows(masked ?? {})} row(s)`);
+    }
+
+    const envPointsAtBranch =
+      getEnvValue(readEnvFile(), "DATABASE_URL") === databaseUrl;
+    const migrationStatus = migrationCheckFailed
+      ? "Could not check ⚠️"
+      : skipMigrations
+        ? `Skipped (${skipMigrations})`
+        : appliedMigrations.length > 0
+          ? `${appliedMigrations.length} applied ✅`
+          : "Up to date ✅";
+    const maskingStatus = masked
+      ? `${countMaskedRows(masked)} row(s) masked ✅`
+      : values["no-mask"]
+        ? "Skipped (--no-mask) ⚠️"
+        : "Not configured (masking.tables)";
+
+    console.log("\n🎉 Feature branch reset!");
+    console.log(`
+┌─ Summary ─────────────────────────────────────────────────────────────────┐
+│ Git Branch:     ${branchName.padEnd(57)} │
+│ Neon Branch:    ${`${featureBranch.name} (${featureBranch.id})`.padEnd(57)} │
+│ Reset From:     ${`${parentBranch.name}, latest state`.padEnd(57)} │
+│ Migrations:     ${migrationStatus.padEnd(57)} │
+│ Masking:        ${maskingStatus.padEnd(57)} │
+│ Database URL:   ${(envPointsAtBranch ? "Unchanged, .env already points at it" : "Unchanged, .env points at another branch ⚠️").padEnd(57)} │
+└───────────────────────────────────────────────────────────────────────────┘
+`);
+
+    return {
+      dryRun: false,
+      gitBranch: branchName,
+      branch: summarizeBranch(restoreData.branch),
+      parentBranch: summarizeBranch(parentBranch),
+      migrations: { applied: appliedMigrations, skipped: skipMigrations },
+      masked,
+      envPointsAtBranch,
+    };
+  },
+});
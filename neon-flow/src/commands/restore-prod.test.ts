@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import type { DryRunResult } from "../plan";
+import { withProject } from "../test-project";
+import type { RestoreProdResult } from "./restore-prod";
+
+describe("restore-prod", () => {
+  test(
+    "checks out main and points .env at production",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/search");
+
+      const result = await project.result<RestoreProdResult>("restore-prod");
+
+      expect(result.gitBranch).toBe("main");
+      expect(result.commit).toBe(
+        await project.git("rev-parse", "--short", "HEAD"),
+      );
+      expect(await project.git("branch", "--show-current")).toBe("main");
+      expect(project.envValue("DATABASE_URL")).toBe(
+        project.envValue("PRODUCTION_DATABASE_URL"),
+      );
+      expect(project.journal().at(-1)).toMatchObject({
+        fromBranch: "alice-search",
+        toBranch: "production",
+      });
+    }),
+  );
+
+  test(
+    "changes nothing in a dry run",
+    withProject(async (project) => {
+      await project.result("feature", "init", "alice/search");
+      const databaseUrl = project.envValue("DATABASE_URL");
+
+      const result = await project.result<DryRunResult>(
+        "restore-prod",
+        "--dry-run",
+      );
+
+      expect(result.planned.map((step) => step.type)).toContain("env");
+      expect(await project.git("branch", "--show-current")).toBe(
+        "alice/search",
+      );
+      expect(project.envValue("DATABASE_URL")).toBe(databaseUrl);
+    }),
+  );
+});
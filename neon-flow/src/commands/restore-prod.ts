@@ -0,0 +1,186 @@
+import { findProductionBranch } from "../branches";
+import { createNeonClientFromEnv } from "../client";
+import { defineCommand } from "../command";
+import type { NeonFlowConfig } from "../config";
+import { getEnvValue, readEnvFile } from "../env-file";
+import { ConfigError, GitError } from "../errors";
+import {
+  commitExists,
+  currentCommit,
+  currentGitBranch,
+  git,
+  isGitRepository,
+} from "../git";
+import {
+  DRY_RUN_OPTION,
+  createPlan,
+  type DryRunResult,
+  type Plan,
+} from "../plan";
+
+// Checks out the configured base branch, main, master, then the remote's
+// default branch
+async function checkoutProductionBranch(
+  plan: Plan,
+  baseBranch: string,
+): Promise<string> {
+  const candidates = [...new Set([baseBranch, "main", "master"])];
+
+  for (const branch of candidates) {
+    try {
+      // A dry run can't learn from a failed checkout, so it looks first
+      if (plan.dryRun && !(await commitExists(branch))) {
+        continue;
+      }
+      await plan.git("checkout", branch);
+      return branch;
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  try {
+    const defaultBranch = (
+      await git("symbolic-ref", "refs/remotes/origin/HEAD")
+    ).replace("refs/remotes/origin/", "");
+    await plan.git("checkout", defaultBranch);
+    return defaultBranch;
+  } catch {
+    throw new GitError(
+      `Failed to checkout to production branch. Tried: ${candidates.join(", ")}, and default branch. Please manually checkout to your production branch`,
+    );
+  }
+}
+
+// Name of the production Neon branch for the .env journal. restore-prod
+// works without Neon credentials, the branch is unknown then.
+async function productionBranchName(
+  config: NeonFlowConfig,
+): Promise<string | null> {
+  try {
+    const { branches } = await createNeonClientFromEnv().branches.listAll();
+    return findProductionBranch(branches, config)?.name ?? null;
+  } catch (error) {
+    console.warn(
+      `⚠️  Could not look up the production Neon branch, .env.journal.json won't name it: ${error}`,
+    );
+    return null;
+  }
+}
+
+export interface RestoreProdResult {
+  dryRun: false;
+  gitBranch: string;
+  commit: string;
+  envUpdated: true;
+}
+
+export const restoreProd = defineCommand({
+  name: "restore-prod",
+  summary:
+    "Switch the codebase back to the production branch and restore DATABASE_URL from PRODUCTION_DATABASE_URL.",
+  description: [
+    "Switches to git.baseBranch (default main) or master, pulls the latest changes and",
+    "restores DATABASE_URL from PRODUCTION_DATABASE_URL in .env.",
+  ],
+  options: {
+    "dry-run": DRY_RUN_OPTION,
+  },
+  examples: ["neon-flow restore-prod", "neon-flow restore-prod --dry-run"],
+  troubleshooting: [
+    "Ensure you're in a git repository",
+    "Check that PRODUCTION_DATABASE_URL is set in .env",
+    "Make sure you have git installed and configured",
+    "Verify you have network access for git pull",
+  ],
+
+  async run({ values, config }): Promise<RestoreProdResult | DryRunResult> {
+    const plan = createPlan(values["dry-run"] === true);
+    console.log("🔄 Restoring to production state...");
+
+    // Step 1: Check if we're in a git repository
+    if (!(await isGitRepository())) {
+      throw new GitError("Not in a git repository or git is not available");
+    }
+    console.log("📂 Git repository detected");
+
+    // Step 2: Get current branch or commit
+    const currentBranch = await currentGitBranch().catch(() => "");
+    if (currentBranch) {
+      console.log(`📍 Currently on branch: ${currentBranch}`);
+    } else {
+      console.log(`📍 Currently at detached HEAD: ${await currentCommit()}`);
+    }
+
+    // Step 3: Read PRODUCTION_DATABASE_URL before touching git
+    const envContent = readEnvFile();
+    if (!envContent) {
+      throw new ConfigError(
+        ".env file not found. Please create a .env file with your environment variables",
+      );
+    }
+
+    const productionUrl = getEnvValue(envContent, "PRODUCTION_DATABASE_URL");
+    if (!productionUrl) {
+      throw new ConfigError(
+        "PRODUCTION_DATABASE_URL not found in .env file. It should contain your production database connection string",
+      );
+    }
+
+    // Step 4: Checkout to main/master branch (production)
+    console.log("🎯 Switching to production branch...");
+    const finalBranch = await checkoutProductionBranch(
+      plan,
+      config.git.baseBranch,
+    );
+    plan.done(`✅ Switched to production branch: ${finalBranch}`);
+
+    // Step 5: Pull latest changes
+    console.log("⬇️  Pulling latest changes...");
+    try {
+      await plan.git("pull");
+      plan.done("✅ Latest changes pulled successfully");
+    } catch {
+      console.log(
+        "⚠️  Git pull failed or no remote configured - continuing with local HEAD",
+      );
+    }
+
+    // Step 6: Restore production DATABASE_URL
+    console.log("📝 Restoring production DATABASE_URL...");
+    plan.updateEnvFile(
+      { DATABASE_URL: productionUrl },
+      { branch: await productionBranchName(config) },
+    );
+    plan.done("✅ DATABASE_URL restored to production value");
+
+    if (plan.dryRun) {
+      return plan.finish();
+    }
+
+    const commitHash = await currentCommit().catch(() => "unknown");
+
+    console.log(`
+┌─ Production Restoration Complete ─────────────────────────────────────────┐
+│ Branch:         ${finalBranch.padEnd(57)} │
+│ Commit:         ${commitHash.padEnd(57)} │
+│ DATABASE_URL:   ${"Restored from PRODUCTION_DATABASE_URL".padEnd(57)} │
+└───────────────────────────────────────────────────────────────────────────┘
+    `);
+
+    console.log("🎯 Production state restored successfully!");
+    console.log("\n💡 You are now back to:");
+    console.log("   • Latest production code");
+    console.log("   • Production database connection");
+    console.log("   • Normal development environment");
+
+    console.log("\n✨ Ready for normal development!");
+
+    return {
+      dryRun: false,
+      gitBranch: finalBranch,
+      commit: commitHash,
+      envUpdated: true,
+    };
+  },
+});
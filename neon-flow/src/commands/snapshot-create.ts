@@ -0,0 +1,139 @@
+import {
+  findProductionBranch,
+  printAvailableBranches,
+  summarizeBranch,
+  type BranchSummary,
+} from "../branches";
+import { createNeonClientFromEnv } from "../client";
+import { BranchNotFoundError } from "../errors";
+import { defineCommand } from "../command";
+import { validateCommitId } from "../git";
+import { waitForOperations } from "../operations";
+import { DRY_RUN_OPTION, createPlan, type DryRunResult } from "../plan";
+
+export interface SnapshotCreateResult {
+  dryRun: false;
+  commitId: string;
+  snapshot: {
+    id: string;
+    name: string;
+    createdAt: string;
+    expiresAt: string;
+  };
+  sourceBranch: BranchSummary;
+}
+
+export const snapshotCreate = defineCommand({
+  name: "snapshot create",
+  arguments: "<commit-id>",
+  summary:
+    "Snapshot the production database branch as <prefix><commit-id> (default prod-<commit-id>) so the commit can be tested later.",
+  description: [
+    "Designed to run in CI after every merge to production.",
+    "Snapshots expire after ttl.snapshotMonths (default 4) months, see neon-flow.config.ts.",
+  ],
+  options: {
+    "dry-run": DRY_RUN_OPTION,
+  },
+  examples: [
+    "neon-flow snapshot create $(git rev-parse --short HEAD)",
+    "neon-flow snapshot create abc123f --dry-run",
+  ],
+  troubleshooting: [
+    "Ensure NEON_API_KEY and NEON_PROJECT_ID are correct",
+    "Check that the production branch exists",
+    "Verify you have permission to create snapshots",
+    "Check your network connection",
+  ],
+
+  async run({
+    positionals,
+    values,
+    config,
+  }): Promise<SnapshotCreateResult | DryRunResult> {
+    const plan = createPlan(values["dry-run"] === true);
+    const expirationMonths = config.ttl.snapshotMonths;
+    const commitId = validateCommitId(positionals[0]);
+    const neon = createNeonClientFromEnv();
+
+    console.log(`📸 Creating snapshot for commit: ${commitId}`);
+
+    // Step 1: Find the production branch
+    console.log("🔍 Finding production database branch...");
+    const { branches } = await neon.branches.listAll();
+    const productionBranch = findProductionBranch(branches, config);
+
+    if (!productionBranch) {
+      printAvailableBranches(branches, console.error);
+      throw new BranchNotFoundError(
+        `Production branch not found. Looking for a branch named ${config.branches.production.map((name) => `'${name}'`).join(", ")} or the default branch`,
+      );
+    }
+
+    console.log(
+      `✅ Found production branch: ${productionBranch.name} (${productionBranch.id})`,
+    );
+
+    // Step 2: Create snapshot with naming convention: <prefix><commit-id>
+    const snapshotName = `${config.snapshots.prefix}${commitId}`;
+    console.log(`📸 Creating snapshot: ${snapshotName}...`);
+
+    const expirationDate = new Date();
+    expirationDate.setMonth(expirationDate.getMonth() + expirationMonths);
+    const snapshotPayload = {
+      name: snapshotName,
+      expires_at: expirationDate.toISOString(),
+    };
+
+    const snapshotData = await plan.neon(
+      {
+        method: "POST",
+        path: `/projects/${neon.projectId}/branches/${productionBranch.id}/snapshot`,
+        query: snapshotPayload,
+      },
+      () => neon.snapshots.create(productionBranch.id, snapshotPayload),
+    );
+
+    if (!snapshotData) {
+      return plan.finish();
+    }
+
+    await waitForOperations(neon, snapshotData.operations);
+
+    console.log(`✅ Snapshot created successfully!`);
+    console.log(`
+┌─ Snapshot Details ────────────────────────────────────────────────────────┐
+│ Snapshot Name:  ${snapshotData.snapshot.name.padEnd(57)} │
+│ Snapshot ID:    ${snapshotData.snapshot.id.padEnd(57)} │
+│ Source Branch:  ${productionBranch.name.padEnd(57)} │
+│ Commit ID:      ${commitId.padEnd(57)} │
+│ Created:        ${new Date(snapshotData.snapshot.created_at).toLocaleString().padEnd(57)} │
+│ Expires:        ${expirationDate.toLocaleDateString().padEnd(57)} │
+└───────────────────────────────────────────────────────────────────────────┘
+    `);
+
+    console.log("🎯 Use this snapshot name for restoration:");
+    console.log(`   neon-flow snapshot test ${commitId}`);
+
+    console.log(
+      "\n💡 This snapshot represents the production database state for commit:",
+      commitId,
+    );
+    console.log(
+      `   It will automatically expire in ${expirationMonths} months to save storage costs.`,
+    );
+
+    return {
+      dryRun: false,
+      commitId,
+      snapshot: {
+        id: snapshotData.snapshot.id,
+        name: snapshotData.snapshot.name,
+        createdAt: snapshotData.snapshot.created_at,
+        expiresAt:
+          snapshotData.snapshot.expires_at ?? snapshotPayload.expires_at,
+      },
+      sourceBranch: summarizeBranch(productionBranch),
+    };
+  },
+});
@@ -0,0 +1,273 @@
+import {
+  assertNotProductionOrProtected,
+  summarizeBranch,
+  type BranchSummary,
+} from "../branches";
+import { createNeonClientFromEnv } from "../client";
+import { defineCommand } from "../command";
+import { branchDatabaseUrl } from "../connection";
+import { daysToMs, describeDuration, parseDuration } from "../duration";
+import {
+  EXIT_CODES,
+  GitError,
+  NeonFlowError,
+  SnapshotNotFoundError,
+} from "../errors";
+import {
+  commitExists,
+  currentCommit,
+  currentGitBranch,
+  isGitRepository,
+  validateCommitId,
+} from "../git";
+import { countMaskedRows, hasMaskingRules } from "../masking";
+import { waitForOperations } from "../operations";
+import { DRY_RUN_OPTION, createPlan, type DryRunResult } from "../plan";
+import type { RestoreSnapshotRequest } from "../types";
+
+export interface SnapshotTestResult {
+  dryRun: false;
+  commitId: string;
+  snapshot: {
+    id: string;
+    name: string;
+  };
+  // The branch restored from the snapshot
+  branch: BranchSummary;
+  // Rows rewritten per table in masking.tables, null without rules or
+  // with --no-mask
+  masked: Record<string, number> | null;
+}
+
+export const snapshotTest = defineCommand({
+  name: "snapshot test",
+  arguments: "<commit-id>",
+  summary:
+    "Check out a commit and restore its snapshot into a test database branch (default prod-<commit-id> into test-<commit-id>).",
+  description: [
+    "Synchronizes code and database to the same point in time for debugging.",
+    "The test branch expires after ttl.testDays (default 14) days, see neon-flow.config.ts, or after --ttl.",
+    "Columns in masking.tables are rewritten with fake values once the branch is ready.",
+    "Run restore-prod when done.",
+  ],
+  options: {
+    ttl: {
+      type: "string",
+      valueName: "<duration>",
+      description:
+        "Delete the test branch after this long instead of ttl.testDays, e.g. 3d or 12h",
+    },
+    "no-mask": {
+      type: "boolean",
+      description:
+        "Keep the snapshot's values in the columns listed in masking.tables",
+    },
+    "dry-run": DRY_RUN_OPTION,
+  },
+  examples: [
+    "neon-flow snapshot test abc123f",
+    "neon-flow snapshot test abc123f --dry-run",
+    "neon-flow snapshot test abc123f --ttl 2d",
+  ],
+  troubleshooting: [
+    "Ensure the snapshot exists (run snapshot create first)",
+    "Check that NEON_API_KEY and NEON_PROJECT_ID are correct",
+    "Verify you have permission to create branches and access snapshots",
+    "Check your network connection",
+  ],
+
+  async run({
+    positionals,
+    values,
+    config,
+  }): Promise<SnapshotTestResult | DryRunResult> {
+    const plan = createPlan(values["dry-run"] === true);
+    const ttlMs = values.ttl
+      ? parseDuration(values.ttl, "--ttl")
+      : daysToMs(config.ttl.testDays);
+    const snapshotPrefix = config.snapshots.prefix;
+    const commitId = validateCommitId(positionals[0]);
+    const mask = hasMaskingRules(config.masking) && !values["no-mask"];
+    const neon = createNeonClientFromEnv();
+
+    console.log(`🔍 Setting up test environment for commit: ${commitId}`);
+
+    // Step 1: Checkout to the specific commit in git
+    console.log("📂 Switching codebase to commit state...");
+
+    if (!(await isGitRepository())) {
+      throw new GitError(
+        "Not in a git repository or git is not available. This command requires git to synchronize code and database state",
+      );
+    }
+
+    const currentBranch = await currentGitBranch().catch(() => "");
+    if (currentBranch) {
+      console.log(`📍 Currently on branch: ${currentBranch}`);
+    } else {
+      console.log(`📍 Currently at commit: ${await currentCommit()}`);
+    }
+
+    try {
+      // A dry run still checks that the commit exists
+      if (plan.dryRun && !(await commitExists(commitId))) {
+        throw new Error(`Unknown commit: ${commitId}`);
+      }
+      await plan.git("checkout", commitId);
+    } catch (error) {
+      throw new GitError(
+        `Failed to checkout commit: ${commitId}. Please ensure the commit hash is valid and exists in your repository (you may need to fetch from remote)`,
+        ["checkout", commitId],
+      );
+    }
+
+    plan.done(`✅ Checked out to commit: ${commitId}`);
+    plan.done("   Note: You are now in 'detached HEAD' state");
+
+    // Step 2: Find the snapshot for this commit
+    const snapshotName = `${snapshotPrefix}${commitId}`;
+    console.log(`📸 Looking for snapshot: ${snapshotName}...`);
+
+    const { snapshots } = await neon.snapshots.listAll();
+    const targetSnapshot = snapshots.find((s) => s.name === snapshotName);
+
+    if (!targetSnapshot) {
+      console.error("   Available snapshots:");
+      snapshots
+        .filter((s) => s.name.startsWith(snapshotPrefix))
+        .forEach((snapshot) => {
+          console.error(
+            `     • ${snapshot.name} (${new Date(snapshot.created_at).toLocaleDateString()})`,
+          );
+        });
+      console.error("\n💡 Create the snapshot first:");
+      console.error(`   neon-flow snapshot create ${commitId}`);
+      throw new SnapshotNotFoundError(snapshotName);
+    }
+
+    if (targetSnapshot.status && targetSnapshot.status !== "active") {
+      throw new NeonFlowError(
+        `Snapshot is not ready: ${targetSnapshot.status}. Wait for the snapshot to become active before testing`,
+        EXIT_CODES.api,
+      );
+    }
+
+    console.log(`✅ Found snapshot: ${snapshotName} (${targetSnapshot.id})`);
+
+    // Step 3: Create a new branch from the snapshot (multi-step restore - step 1)
+    const testBranchName = `${config.snapshots.testBranchPrefix}${commitId}`;
+    console.log(`🎋 Creating test branch: ${testBranchName}...`);
+
+    const expirationDate = new Date(Date.now() + ttlMs);
+
+    const restoreRequest: RestoreSnapshotRequest = {
+      name: testBranchName,
+      finalize_restore: false, // Multi-step restore - don't finalize yet
+      expire_at: expirationDate.toISOString(),
+    };
+
+    const restoreData = await plan.neon(
+      {
+        method: "POST",
+        path: `/projects/${neon.projectId}/snapshots/${targetSnapshot.id}/restore`,
+        body: restoreRequest,
+      },
+      () => neon.snapshots.restore(targetSnapshot.id, restoreRequest),
+    );
+
+    if (!restoreData) {
+      if (mask) {
+        await plan.mask(
+          testBranchName,
+          `<pooled connection string of ${testBranchName}>`,
+          config.masking,
+        );
+      }
+      return plan.finish();
+    }
+
+    const testBranch = restoreData.branch;
+
+    console.log(
+      `✅ Test branch created: ${testBranch.name} (${testBranch.id})`,
+    );
+
+    await waitForOperations(neon, restoreData.operations);
+    console.log(`✅ Database branch ready for testing`);
+
+    // Step 4: Replace personal data copied from production
+    let masked: Record<string, number> | null = null;
+    if (mask) {
+      const { branches } = await neon.branches.listAll();
+      assertNotProductionOrProtected(testBranch, branches, config);
+
+      const databaseUrl = await branchDatabaseUrl(neon, testBranch.id);
+      if (!databaseUrl) {
+        throw new NeonFlowError(
+          `Test branch '${testBranch.name}' has no database to mask`,
+          EXIT_CODES.api,
+        );
+      }
+
+      console.log("🎭 Masking personal data...");
+      masked =
+        (await plan.mask(testBranch.name, databaseUrl, config.masking)) ?? null;
+      console.log(`✅ Masked ${countMaskedRows(masked ?? {})} row(s)`);
+    }
+
+    const maskingStatus = masked
+      ? `${countMaskedRows(masked)} row(s) masked ✅`
+      : values["no-mask"]
+        ? "Skipped (--no-mask) ⚠️"
+        : "Not configured (masking.tables)";
+    const testBranchLabel = `${testBranch.name} (${testBranch.id})`;
+    const branchExpires = testBranch.expire_at
+      ? new Date(testBranch.expire_at).toLocaleDateString()
+      : "No expiration set";
+
+    console.log(`
+┌─ Test Environment Setup ──────────────────────────────────────────────────┐
+│ Commit ID:      ${commitId.padEnd(57)} │
+│ Git State:      ${"Checked out to commit (detached HEAD)".padEnd(57)} │
+│ Snapshot:       ${targetSnapshot.name.padEnd(57)} │
+│ Test Branch:    ${testBranchLabel.padEnd(57)} │
+│ Branch Expires: ${branchExpires.padEnd(57)} │
+│ Masking:        ${maskingStatus.padEnd(57)} │
+└───────────────────────────────────────────────────────────────────────────┘
+    `);
+
+    console.log("🎯 Code is synchronized to commit:", commitId);
+    console.log(
+      "📝 Now update your DATABASE_URL to connect to the test branch:",
+    );
+    console.log("");
+    console.log("   1. Go to: https://console.neon.tech");
+    console.log(`   2. Find the branch: ${testBranch.name}`);
+    console.log("   3. Copy the connection string");
+    console.log("   4. Update DATABASE_URL in your .env file");
+    console.log("");
+    console.log("🚀 Then run your application to test the historical state:");
+    console.log("   npm run dev");
+    console.log("");
+    console.log("✨ When done testing, restore to production:");
+    console.log("   neon-flow restore-prod");
+
+    console.log("\n⚠️  Remember:");
+    console.log("   • Code is at commit", commitId);
+    console.log(
+      "   • Database will be at the same historical point once you update DATABASE_URL",
+    );
+    console.log("   • Use restore-prod to return to normal development");
+    console.log(
+      `   • Test branch will automatically expire in ${describeDuration(ttlMs)}`,
+    );
+
+    return {
+      dryRun: false,
+      commitId,
+      snapshot: { id: targetSnapshot.id, name: targetSnapshot.name },
+      branch: summarizeBranch(testBranch),
+      masked,
+    };
+  },
+});
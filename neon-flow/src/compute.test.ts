@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { resolveCompute, type ComputeSettings } from "./compute";
+import { UsageError } from "./errors";
+
+const CONFIG: ComputeSettings = {
+  minCu: 0.25,
+  maxCu: 2,
+  suspendTimeoutSeconds: null,
+};
+
+describe("resolveCompute", () => {
+  test("keeps the config without flags", () => {
+    expect(resolveCompute(CONFIG, {})).toEqual(CONFIG);
+  });
+
+  test("lets flags override the config", () => {
+    expect(
+      resolveCompute(CONFIG, {
+        "min-cu": "1",
+        "max-cu": "4",
+        "suspend-timeout": "-1",
+      }),
+    ).toEqual({ minCu: 1, maxCu: 4, suspendTimeoutSeconds: -1 });
+  });
+
+  test("rejects sizes that aren't quarter compute units", () => {
+    expect(() => resolveCompute(CONFIG, { "min-cu": "0.3" })).toThrow(
+      "Invalid --min-cu value '0.3'",
+    );
+    expect(() => resolveCompute(CONFIG, { "max-cu": "0" })).toThrow(UsageError);
+    expect(() => resolveCompute(CONFIG, { "max-cu": "big" })).toThrow(
+      UsageError,
+    );
+  });
+
+  test("rejects suspend timeouts below -1 or with fractions", () => {
+    expect(() => resolveCompute(CONFIG, { "suspend-timeout": "-2" })).toThrow(
+      UsageError,
+    );
+    expect(() => resolveCompute(CONFIG, { "suspend-timeout": "1.5" })).toThrow(
+      "Invalid --suspend-timeout value '1.5'",
+    );
+  });
+
+  test("rejects a minimum above the maximum, also across config and flags", () => {
+    expect(() => resolveCompute(CONFIG, { "min-cu": "4" })).toThrow(
+      "The minimum compute size (4 CU) is larger than the maximum (2 CU)",
+    );
+  });
+});
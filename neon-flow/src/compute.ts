@@ -0,0 +1,99 @@
+// Compute settings of the endpoints feature init creates: compute in
+// neon-flow.config.ts, overridden by --min-cu, --max-cu and --suspend-timeout
+
+import type { NeonFlowConfig } from "./config";
+import { UsageError } from "./errors";
+import type { CreateEndpointSpec, NeonEndpoint } from "./types";
+
+export type ComputeSettings = Omit<NeonFlowConfig["compute"], "readReplica">;
+
+// Neon sizes computes in steps of a quarter compute unit
+export function isComputeUnits(value: unknown): value is number {
+  return (
+    typeof value === "number" && value >= 0.25 && Number.isInteger(value * 4)
+  );
+}
+
+// 0 uses the project's default, -1 never suspends
+export function isSuspendTimeout(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= -1;
+}
+
+export function parseComputeUnits(value: string, option: string): number {
+  const units = Number(value);
+  if (!isComputeUnits(units)) {
+    throw new UsageError(
+      `Invalid ${option} value '${value}'. Expected compute units in steps of 0.25, e.g. 0.25, 1 or 4`,
+    );
+  }
+  return units;
+}
+
+export function parseSuspendTimeout(value: string, option: string): number {
+  const seconds = Number(value);
+  if (!/^-?\d+$/.test(value) || !isSuspendTimeout(seconds)) {
+    throw new UsageError(
+      `Invalid ${option} value '${value}'. Expected seconds, 0 for the project default or -1 to never suspend`,
+    );
+  }
+  return seconds;
+}
+
+export function resolveCompute(
+  config: ComputeSettings,
+  flags: { "min-cu"?: string; "max-cu"?: string; "suspend-timeout"?: string },
+): ComputeSettings {
+  const compute: ComputeSettings = {
+    minCu: flags["min-cu"]
+      ? parseComputeUnits(flags["min-cu"], "--min-cu")
+      : config.minCu,
+    maxCu: flags["max-cu"]
+      ? parseComputeUnits(flags["max-cu"], "--max-cu")
+      : config.maxCu,
+    suspendTimeoutSeconds: flags["suspend-timeout"]
+      ? parseSuspendTimeout(flags["suspend-timeout"], "--suspend-timeout")
+      : config.suspendTimeoutSeconds,
+  };
+
+  if (
+    compute.minCu !== null &&
+    compute.maxCu !== null &&
+    compute.minCu > compute.maxCu
+  ) {
+    throw new UsageError(
+      `The minimum compute size (${compute.minCu} CU) is larger than the maximum (${compute.maxCu} CU)`,
+    );
+  }
+  return compute;
+}
+
+// Settings left at null aren't sent, so Neon applies the project's defaults
+export function endpointSpec(
+  type: NeonEndpoint["type"],
+  compute: ComputeSettings,
+): CreateEndpointSpec {
+  return {
+    type,
+    pooler_enabled: true,
+    ...(compute.minCu !== null && { autoscaling_limit_min_cu: compute.minCu }),
+    ...(compute.maxCu !== null && { autoscaling_limit_max_cu: compute.maxCu }),
+    ...(compute.suspendTimeoutSeconds !== null && {
+      suspend_timeout_seconds: compute.suspendTimeoutSeconds,
+    }),
+  };
+}
+
+// "0.25-2 CU, suspends after 300s"
+export function describeEndpointCompute(endpoint: NeonEndpoint): string {
+  const { autoscaling_limit_min_cu: min, autoscaling_limit_max_cu: max } =
+    endpoint;
+  const size = min === max ? `${min} CU` : `${min}-${max} CU`;
+  const timeout = endpoint.suspend_timeout_seconds;
+  const suspend =
+    timeout === -1
+      ? "never suspends"
+      : timeout === 0
+        ? "default suspend timeout"
+        : `suspends after ${timeout}s`;
+  return `${size}, ${suspend}`;
+}
@@ -0,0 +1,161 @@
+// Project configuration for neon-flow, loaded from neon-flow.config.ts
+//
+// Projects import defineConfig from this file, so it must not import
+// anything: it is type-checked and bundled by the project's own build.
+
+// How masking rewrites a column, each keeps the original value's format:
+// - name: every word becomes a fake name with the same capitalization
+// - email: letters and digits of the local part are replaced, the domain
+//   becomes example.com
+// - phone: every digit is replaced, "+", spaces and dashes stay
+// - text: letters become random letters, digits random digits
+export const MASK_RULES = ["name", "email", "phone", "text"] as const;
+
+export type MaskRule = (typeof MASK_RULES)[number];
+
+export interface NeonFlowConfig {
+  branches: {
+    // Neon branches new feature branches are created from, first match wins
+    development: string[];
+    // Neon branches snapshots are taken from, before falling back to the
+    // project's default branch
+    production: string[];
+    // Git and Neon branches the CLI refuses to clean up or reuse as features
+    protected: string[];
+    // Derives the Neon branch name from a git branch name. Branches are
+    // found by the git branch recorded on them, so names may collide.
+    name: (gitBranch: string) => string;
+  };
+  git: {
+    // Branch new feature branches start from and cleanup switches back to
+    baseBranch: string;
+    // Where feature init --worktree creates worktrees, relative to the
+    // repository root. Each is named <repository>-<neon branch name>
+    worktreesDir: string;
+  };
+  ttl: {
+    // Feature branches created by feature init
+    featureDays: number;
+    // Branches restored from snapshots by snapshot test
+    testDays: number;
+    // Snapshots created by snapshot create
+    snapshotMonths: number;
+    // Snapshots feature cleanup --archive takes before deleting a branch
+    archiveDays: number;
+  };
+  gc: {
+    // feature gc deletes feature branches with no commits and no database
+    // activity for this many days
+    staleDays: number;
+  };
+  snapshots: {
+    // Snapshot names are <prefix><commit-id>
+    prefix: string;
+    // Branches restored from a snapshot are <testBranchPrefix><commit-id>
+    testBranchPrefix: string;
+    // feature cleanup --archive snapshots a feature branch as
+    // <archivePrefix><neon branch name>-<git branch hash>, feature recover
+    // restores it
+    archivePrefix: string;
+  };
+  seed: {
+    // Shell command that fills a branch with data, run with DATABASE_URL
+    // pointing at the branch, e.g. "bun run db:seed". null disables --seed
+    command: string | null;
+  };
+  migrations: {
+    // Drizzle migrations folder with meta/_journal.json, relative to the
+    // project
+    dir: string;
+    // Where Drizzle records applied migrations, as schema.table
+    table: string;
+    // Shell command that applies pending migrations, run with DATABASE_URL
+    // pointing at the branch. null stops feature init from migrating
+    command: string | null;
+  };
+  compute: {
+    // Autoscaling limits of the endpoints feature init creates, in compute
+    // units (CU) in steps of 0.25. null uses the project's defaults
+    minCu: number | null;
+    maxCu: number | null;
+    // Seconds of inactivity before a compute suspends, -1 never suspends.
+    // null uses the project's default
+    suspendTimeoutSeconds: number | null;
+    // Also create a read-only endpoint and write its connection string to
+    // READ_DATABASE_URL, like --read-replica
+    readReplica: boolean;
+  };
+  masking: {
+    // Columns to rewrite with fake values per table, e.g.
+    // { contacts: { name: "name", email: "email" } }. feature init and
+    // snapshot test mask new branches unless --no-mask; empty masks nothing
+    tables: Record<string, Record<string, MaskRule>>;
+    // Column that identifies a row, in every masked table
+    key: string;
+  };
+}
+
+// Every setting is optional, missing ones fall back to DEFAULT_CONFIG
+export type NeonFlowUserConfig = {
+  [Section in keyof NeonFlowConfig]?: Partial<NeonFlowConfig[Section]>;
+};
+
+export const CONFIG_FILE_NAME = "neon-flow.config.ts";
+
+export const DEFAULT_CONFIG: NeonFlowConfig = {
+  branches: {
+    development: ["development", "dev", "develop"],
+    production: ["production", "main"],
+    protected: [
+      "main",
+      "master",
+      "development",
+      "dev",
+      "develop",
+      "production",
+      "prod",
+    ],
+    // Neon branch names only allow letters, digits and dashes
+    name: (gitBranch) => gitBranch.replace(/[^a-zA-Z0-9-]/g, "-"),
+  },
+  git: {
+    baseBranch: "main",
+    worktreesDir: "..",
+  },
+  ttl: {
+    featureDays: 14,
+    testDays: 14,
+    snapshotMonths: 4,
+    archiveDays: 30,
+  },
+  gc: {
+    staleDays: 30,
+  },
+  snapshots: {
+    prefix: "prod-",
+    testBranchPrefix: "test-",
+    archivePrefix: "archive-",
+  },
+  seed: {
+    command: null,
+  },
+  migrations: {
+    dir: "migrations",
+    table: "drizzle.__drizzle_migrations",
+    command: "bun run db:migrate",
+  },
+  compute: {
+    minCu: null,
+    maxCu: null,
+    suspendTimeoutSeconds: null,
+    readReplica: false,
+  },
+  masking: {
+    tables: {},
+    key: "id",
+  },
+};
+
+export function defineConfig(config: NeonFlowUserConfig): NeonFlowUserConfig {
+  return config;
+}
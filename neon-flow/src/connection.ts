@@ -0,0 +1,88 @@
+// Connection string helpers
+
+import { neon, neonConfig } from "@neondatabase/serverless";
+import type { NeonClient } from "./client";
+import { URL } from "url";
+import type { ConnectionUri, NeonEndpoint } from "./types";
+
+// Uses the pooler host if available for better performance
+export function pooledDatabaseUrl(connectionUri: ConnectionUri): string {
+  const { host, pooler_host } = connectionUri.connection_parameters;
+  return pooler_host
+    ? connectionUri.connection_uri.replace(host, pooler_host)
+    : connectionUri.connection_uri;
+}
+
+export function redactDatabaseUrl(databaseUrl: string): string {
+  return databaseUrl.replace(/:[^:@]+@/, ":***@");
+}
+
+export function extractHostFromDatabaseUrl(databaseUrl: string): string | null {
+  try {
+    return new URL(databaseUrl).hostname;
+  } catch {
+    return null;
+  }
+}
+
+export function extractEndpointIdFromHost(host: string): string | null {
+  // Neon hosts follow patterns like:
+  // ep-cool-darkness-123456.c-2.us-west-2.aws.neon.tech (direct)
+  // ep-cool-darkness-123456-pooler.c-2.us-west-2.aws.neon.tech (pooled)
+  const match = host.match(/^(ep-[a-z0-9-]+)(?:-pooler)?\..*\.neon\.tech$/);
+  return match ? match[1] : null;
+}
+
+export function matchesHost(endpoint: NeonEndpoint, host: string): boolean {
+  // Handle both direct and pooled connections
+  const pooledHost = endpoint.host.replace(/^(ep-[a-z0-9-]+)\./, "$1-pooler.");
+  return endpoint.host === host || pooledHost === host;
+}
+
+// The endpoint a connection string goes through, undefined when it isn't
+// one of endpoints
+export function findEndpointForDatabaseUrl(
+  endpoints: NeonEndpoint[],
+  databaseUrl: string,
+): NeonEndpoint | undefined {
+  const host = extractHostFromDatabaseUrl(databaseUrl);
+  if (!host) {
+    return undefined;
+  }
+  const endpointId = extractEndpointIdFromHost(host);
+  return endpoints.find(
+    (endpoint) => endpoint.id === endpointId || matchesHost(endpoint, host),
+  );
+}
+
+// Pooled connection string of a branch's first database and its owner,
+// through the read-write endpoint unless endpointId names another one
+export async function branchDatabaseUrl(
+  neon: NeonClient,
+  branchId: string,
+  endpointId?: string,
+): Promise<string | undefined> {
+  const { databases } = await neon.databases.list(branchId);
+  const database = databases[0];
+  if (!database) {
+    return undefined;
+  }
+
+  const { uri } = await neon.connectionUri({
+    branchId,
+    databaseName: database.name,
+    roleName: database.owner_name,
+    pooled: true,
+    endpointId,
+  });
+  return uri;
+}
+
+// Queries a branch over HTTP. NEON_SQL_URL sends the queries to another
+// endpoint than the branch's host, e.g. the fake Neon API in tests.
+export function branchSql(databaseUrl: string) {
+  if (process.env.NEON_SQL_URL) {
+    neonConfig.fetchEndpoint = process.env.NEON_SQL_URL;
+  }
+  return neon(databaseUrl);
+}
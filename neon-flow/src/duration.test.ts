@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { describeDuration, parseDuration } from "./duration";
+import { UsageError } from "./errors";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+describe("parseDuration", () => {
+  test("reads hours, days and weeks, plain numbers as days", () => {
+    expect(parseDuration("12h", "--ttl")).toBe(12 * HOUR_MS);
+    expect(parseDuration("30d", "--ttl")).toBe(30 * DAY_MS);
+    expect(parseDuration("2W", "--ttl")).toBe(14 * DAY_MS);
+    expect(parseDuration(" 7 ", "--ttl")).toBe(7 * DAY_MS);
+  });
+
+  test("rejects zero, fractions and unknown units", () => {
+    for (const value of ["0d", "1.5d", "3m", "d", "-1d", ""]) {
+      expect(() => parseDuration(value, "--by")).toThrow(UsageError);
+    }
+    expect(() => parseDuration("3m", "--by")).toThrow(
+      "Invalid --by value '3m'",
+    );
+  });
+});
+
+describe("describeDuration", () => {
+  test("uses days when it can, hours otherwise", () => {
+    expect(describeDuration(14 * DAY_MS)).toBe("14 days");
+    expect(describeDuration(DAY_MS)).toBe("1 day");
+    expect(describeDuration(36 * HOUR_MS)).toBe("36 hours");
+  });
+});
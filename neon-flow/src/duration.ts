@@ -0,0 +1,47 @@
+// Durations for --ttl and --by, e.g. "30d", "2w" or "12h"
+
+import { UsageError } from "./errors";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const UNITS: Record<string, number> = {
+  h: HOUR_MS,
+  d: DAY_MS,
+  w: 7 * DAY_MS,
+};
+
+// A plain number counts days. Returns milliseconds.
+export function parseDuration(value: string, option: string): number {
+  const match = value.trim().match(/^(\d+)\s*([hdw]?)$/i);
+  const amount = match ? Number(match[1]) : 0;
+  if (!match || amount === 0) {
+    throw new UsageError(
+      `Invalid ${option} value '${value}'. Expected a duration such as 30d, 2w or 12h`,
+    );
+  }
+  return amount * UNITS[match[2].toLowerCase() || "d"];
+}
+
+export function daysToMs(days: number): number {
+  return days * DAY_MS;
+}
+
+// "14 days", "1 day", "36 hours"
+export function describeDuration(ms: number): string {
+  const [amount, unit] =
+    ms % DAY_MS === 0
+      ? [ms / DAY_MS, "day"]
+      : [Math.round(ms / HOUR_MS), "hour"];
+  return `${amount} ${unit}${amount === 1 ? "" : "s"}`;
+}
+
+// Whole days since an ISO timestamp, rounded down
+export function daysSince(isoDate: string, now = new Date()): number {
+  return Math.floor((now.getTime() - new Date(isoDate).getTime()) / DAY_MS);
+}
+
+// Whole days left until an ISO timestamp, rounded up
+export function daysUntil(isoDate: string, now = new Date()): number {
+  return Math.ceil((new Date(isoDate).getTime() - now.getTime()) / DAY_MS);
+}
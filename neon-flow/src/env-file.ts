@@ -0,0 +1,70 @@
+// Reads and updates variables in the project's .env file
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+export function envFilePath(cwd = process.cwd()): string {
+  return join(cwd, ".env");
+}
+
+export function readEnvFile(path = envFilePath()): string {
+  return existsSync(path) ? readFileSync(path, "utf8") : "";
+}
+
+export function getEnvValue(content: string, key: string): string | undefined {
+  const line = content.split("\n").find((line) => line.startsWith(`${key}=`));
+  return line?.substring(key.length + 1).replace(/^"|"$/g, "");
+}
+
+// Replaces the variable in place or appends it at the end of the file
+export function setEnvValue(
+  content: string,
+  key: string,
+  value: string,
+): string {
+  const lines = content.split("\n");
+  const entry = `${key}="${value}"`;
+  const index = lines.findIndex((line) => line.startsWith(`${key}=`));
+
+  if (index !== -1) {
+    lines[index] = entry;
+  } else if (lines[lines.length - 1] === "") {
+    // Keep the trailing newline after the new entry
+    lines.splice(lines.length - 1, 0, entry);
+  } else {
+    lines.push(entry);
+  }
+
+  return lines.join("\n");
+}
+
+export function removeEnvValue(content: string, key: string): string {
+  return content
+    .split("\n")
+    .filter((line) => !line.startsWith(`${key}=`))
+    .join("\n");
+}
+
+// null removes the variable, e.g. one that pointed at a deleted branch
+export type EnvUpdates = Record<string, string | null>;
+
+export function applyEnvUpdates(content: string, updates: EnvUpdates): string {
+  let updated = content;
+  for (const [key, value] of Object.entries(updates)) {
+    updated =
+      value === null
+        ? removeEnvValue(updated, key)
+        : setEnvValue(updated, key, value);
+  }
+  return updated;
+}
+
+// Starts from the contents of `from` when given, e.g. to create the .env
+// of a new worktree from the current one
+export function updateEnvFile(
+  updates: EnvUpdates,
+  path = envFilePath(),
+  from = path,
+): void {
+  writeFileSync(path, applyEnvUpdates(readEnvFile(from), updates));
+}
@@ -0,0 +1,268 @@
+// Errors thrown by neon-flow and the Neon API client
+//
+// Every error the CLI expects extends NeonFlowError and carries the exit
+// code it ends with, so automation can tell e.g. a missing branch apart
+// from an invalid API key. Anything else exits with EXIT_CODES.failure.
+
+import type { NeonApiError, NeonOperation } from "./types";
+
+export const EXIT_CODES = {
+  success: 0,
+  // Unexpected errors
+  failure: 1,
+  // Invalid command, flags or arguments
+  usage: 2,
+  // Missing environment variable, .env entry or invalid neon-flow.config.ts
+  config: 3,
+  // The Neon API key is invalid or lacks access to the project
+  unauthorized: 4,
+  // A branch, snapshot or other resource does not exist
+  notFound: 5,
+  // Refused to touch a protected branch
+  protectedBranch: 6,
+  // A git command failed
+  git: 7,
+  // Any other Neon API or operation failure
+  api: 8,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+export class NeonFlowError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: ExitCode = EXIT_CODES.failure,
+  ) {
+    super(message);
+    this.name = "NeonFlowError";
+  }
+}
+
+// Invalid flags or arguments, the CLI also prints the command's help
+export class UsageError extends NeonFlowError {
+  constructor(message: string) {
+    super(message, EXIT_CODES.usage);
+    this.name = "UsageError";
+  }
+}
+
+export class ConfigError extends NeonFlowError {
+  constructor(message: string) {
+    super(message, EXIT_CODES.config);
+    this.name = "ConfigError";
+  }
+}
+
+export class MissingEnvironmentVariableError extends ConfigError {
+  constructor(
+    readonly variable: string,
+    readonly hint?: string,
+  ) {
+    super(
+      `${variable} environment variable is required${hint ? `\n   ${hint}` : ""}`,
+    );
+    this.name = "MissingEnvironmentVariableError";
+  }
+}
+
+// neon-flow.config.ts exists but is not valid
+export class InvalidConfigError extends ConfigError {
+  constructor(
+    readonly path: string,
+    readonly problems: string[],
+  ) {
+    super(
+      `Invalid ${path}:\n${problems.map((problem) => `   • ${problem}`).join("\n")}`,
+    );
+    this.name = "InvalidConfigError";
+  }
+}
+
+export class BranchNotFoundError extends NeonFlowError {
+  constructor(
+    message: string,
+    readonly branchName?: string,
+  ) {
+    super(message, EXIT_CODES.notFound);
+    this.name = "BranchNotFoundError";
+  }
+}
+
+export class SnapshotNotFoundError extends NeonFlowError {
+  constructor(readonly snapshotName: string) {
+    super(`Snapshot not found: ${snapshotName}`, EXIT_CODES.notFound);
+    this.name = "SnapshotNotFoundError";
+  }
+}
+
+export class ProtectedBranchError extends NeonFlowError {
+  constructor(
+    readonly branchName: string,
+    readonly protectedBranches: string[],
+  ) {
+    super(
+      `Refusing to touch protected branch '${branchName}'. Protected branches: ${protectedBranches.join(", ")}`,
+      EXIT_CODES.protectedBranch,
+    );
+    this.name = "ProtectedBranchError";
+  }
+}
+
+// Rewriting a table in masking.tables failed, its rows may be unmasked
+export class MaskingError extends NeonFlowError {
+  constructor(
+    readonly table: string,
+    cause: unknown,
+  ) {
+    super(
+      `Masking ${table} failed: ${cause instanceof Error ? cause.message : cause}`,
+    );
+    this.name = "MaskingError";
+  }
+}
+
+export class GitError extends NeonFlowError {
+  constructor(
+    message: string,
+    // The git arguments, when a git command failed
+    readonly args?: string[],
+  ) {
+    super(message, EXIT_CODES.git);
+    this.name = "GitError";
+  }
+}
+
+export class NeonApiRequestError extends NeonFlowError {
+  constructor(
+    readonly method: string,
+    readonly path: string,
+    readonly status: number,
+    readonly body: NeonApiError,
+    // Parsed from the Retry-After header when the API sent one
+    readonly retryAfterMs?: number,
+  ) {
+    super(
+      `Neon API ${method} ${path} failed: ${status} ${body.message}`,
+      EXIT_CODES.api,
+    );
+    this.name = "NeonApiRequestError";
+  }
+
+  get code(): string | undefined {
+    return this.body.code;
+  }
+}
+
+// 401 / 403: the API key is missing, invalid or lacks access to the project
+export class NeonUnauthorizedError extends NeonApiRequestError {
+  name = "NeonUnauthorizedError";
+  exitCode = EXIT_CODES.unauthorized;
+}
+
+// 404: the project, branch, endpoint or snapshot does not exist
+export class NeonNotFoundError extends NeonApiRequestError {
+  name = "NeonNotFoundError";
+  exitCode = EXIT_CODES.notFound;
+}
+
+// 423: the project is locked by another running operation
+export class NeonLockedError extends NeonApiRequestError {
+  name = "NeonLockedError";
+}
+
+// 429: too many requests
+export class NeonRateLimitError extends NeonApiRequestError {
+  name = "NeonRateLimitError";
+}
+
+// Neon reports a lock held by a running operation with 423, and on some
+// endpoints with a 409 whose message mentions the conflicting operation
+export function isOperationInProgressError(error: NeonApiRequestError) {
+  return (
+    error instanceof NeonLockedError ||
+    (error.status === 409 &&
+      /(conflicting|running) operations?|operation (is )?in progress/i.test(
+        error.body.message ?? "",
+      ))
+  );
+}
+
+// Accepts both forms of Retry-After: delay in seconds or an HTTP date
+export function parseRetryAfter(
+  header: string | null,
+  now = Date.now(),
+): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export async function createNeonApiRequestError(
+  method: string,
+  path: string,
+  response: Response,
+): Promise<NeonApiRequestError> {
+  const text = await response.text();
+  let body: NeonApiError;
+
+  try {
+    body = JSON.parse(text) as NeonApiError;
+  } catch {
+    body = { message: text || response.statusText };
+  }
+
+  const args = [
+    method,
+    path,
+    response.status,
+    body,
+    parseRetryAfter(response.headers.get("retry-after")),
+  ] as const;
+
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new NeonUnauthorizedError(...args);
+    case 404:
+      return new NeonNotFoundError(...args);
+    case 423:
+      return new NeonLockedError(...args);
+    case 429:
+      return new NeonRateLimitError(...args);
+    default:
+      return new NeonApiRequestError(...args);
+  }
+}
+
+export class NeonOperationFailedError extends NeonFlowError {
+  constructor(readonly operation: NeonOperation) {
+    super(
+      `Neon operation ${operation.action} (${operation.id}) ${operation.status}`,
+      EXIT_CODES.api,
+    );
+    this.name = "NeonOperationFailedError";
+  }
+}
+
+export class NeonOperationTimeoutError extends NeonFlowError {
+  constructor(
+    readonly pending: NeonOperation[],
+    readonly timeoutMs: number,
+  ) {
+    super(
+      `Timed out after ${Math.round(timeoutMs / 1000)}s waiting for Neon operations: ${pending
+        .map((operation) => `${operation.action} (${operation.status})`)
+        .join(", ")}`,
+      EXIT_CODES.api,
+    );
+    this.name = "NeonOperationTimeoutError";
+  }
+}
@@ -0,0 +1,30 @@
+#!/usr/bin/env bun
+
+// Stand-in for drizzle-kit migrate in the command tests. Records the
+// journal's pending entries in DATABASE_URL's migrations table through the
+// fake Neon API's SQL endpoint (NEON_SQL_URL). Runs in the project
+// directory, like migrations.command.
+
+import { DEFAULT_CONFIG } from "./config";
+import { branchSql } from "./connection";
+import {
+  findPendingMigrations,
+  migrationHash,
+  readMigrationJournal,
+} from "./migrations";
+
+const { dir, table } = DEFAULT_CONFIG.migrations;
+const databaseUrl = process.env.DATABASE_URL;
+if (!databaseUrl) {
+  throw new Error("DATABASE_URL is not set");
+}
+
+const sql = branchSql(databaseUrl);
+const journal = readMigrationJournal(dir) ?? [];
+for (const entry of await findPendingMigrations(databaseUrl, table, journal)) {
+  await sql.query(`insert into ${table} (hash, created_at) values ($1, $2)`, [
+    migrationHash(dir, entry),
+    entry.when,
+  ]);
+  console.log(`applied ${entry.tag}`);
+}
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createNeonClient, type NeonClient } from "./client";
+import { NeonUnauthorizedError } from "./errors";
+import { createFakeNeonServer, type FakeNeonServer } from "./fake-server";
+
+describe("fake Neon API", () => {
+  let fake: FakeNeonServer;
+  let neon: NeonClient;
+
+  beforeEach(() => {
+    fake = createFakeNeonServer({ operationPolls: 2 });
+    neon = createNeonClient({
+      apiKey: fake.apiKey,
+      projectId: fake.projectId,
+      baseUrl: fake.baseUrl,
+    });
+  });
+
+  afterEach(() => fake.stop());
+
+  test("starts with production and a development child", async () => {
+    const { branches } = await neon.branches.listAll();
+    const production = branches.find((branch) => branch.name === "production");
+    const development = branches.find(
+      (branch) => branch.name === "development",
+    );
+
+    expect(production?.default).toBe(true);
+    expect(development?.parent_id).toBe(production!.id);
+    const { endpoints } = await neon.endpoints.list();
+    expect(endpoints.map((endpoint) => endpoint.branch_id).sort()).toEqual(
+      [production!.id, development!.id].sort(),
+    );
+  });
+
+  test("rejects a wrong API key", async () => {
+    const client = createNeonClient({
+      apiKey: "wrong-key",
+      projectId: fake.projectId,
+      baseUrl: fake.baseUrl,
+    });
+
+    await expect(client.branches.list()).rejects.toBeInstanceOf(
+      NeonUnauthorizedError,
+    );
+  });
+
+  test("creates a branch with an endpoint and finishes its operations after polling", async () => {
+    const development = [...fake.state.branches.values()].find(
+      (branch) => branch.name === "development",
+    )!;
+    const { branch, endpoints, operations } = await neon.branches.create({
+      branch: { name: "alice-search", parent_id: development.id },
+      endpoints: [{ type: "read_write" }],
+    });
+
+    expect(endpoints[0].branch_id).toBe(branch.id);
+    expect(operations.length).toBeGreaterThan(0);
+    const first = await neon.operations.get(operations[0].id);
+    expect(first.operation.status).not.toBe("finished");
+    const second = await neon.operations.get(operations[0].id);
+    expect(second.operation.status).toBe("finished");
+
+    const { uri } = await neon.connectionUri({
+      branchId: branch.id,
+      databaseName: "neondb",
+      roleName: "neondb_owner",
+    });
+    expect(uri).toContain(endpoints[0].host);
+  });
+});
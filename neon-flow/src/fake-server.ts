@@ -0,0 +1,811 @@
+#!/usr/bin/env bun
+
+// In-memory fake of the Neon API v2 for running the CLI offline.
+// Implements the subset of /projects/:id/... the CLI uses and shapes
+// every response like the interfaces in ./types.
+
+import type { BunRequest } from "bun";
+
+import { findEndpointForDatabaseUrl } from "./connection";
+import type { AppliedMigration } from "./migrations";
+import type {
+  ConnectionUri,
+  CreateBranchRequest,
+  NeonBranch,
+  NeonDatabase,
+  NeonEndpoint,
+  NeonOperation,
+  NeonPagination,
+  NeonRole,
+  NeonSnapshot,
+  RestoreBranchRequest,
+  RestoreSnapshotRequest,
+  UpdateBranchRequest,
+} from "./types";
+
+export interface FakeNeonServerOptions {
+  port?: number;
+  projectId?: string;
+  apiKey?: string;
+  // Number of GET /operations/:id polls before an operation reports "finished"
+  operationPolls?: number;
+  now?: () => Date;
+}
+
+export interface FakeNeonState {
+  branches: Map<string, NeonBranch>;
+  endpoints: Map<string, NeonEndpoint>;
+  snapshots: Map<string, NeonSnapshot>;
+  operations: Map<string, NeonOperation & { polls: number }>;
+  annotations: Map<string, Record<string, string>>;
+  // Rows of each branch's migrations table, no entry until the table exists
+  migrations: Map<string, AppliedMigration[]>;
+}
+
+export interface FakeNeonServer {
+  // Value for NEON_API_BASE_URL
+  baseUrl: string;
+  // Value for NEON_SQL_URL, serves the migrations table of every branch
+  sqlUrl: string;
+  projectId: string;
+  apiKey: string;
+  state: FakeNeonState;
+  stop: () => void;
+}
+
+const ROLE_NAME = "neondb_owner";
+const DATABASE_NAME = "neondb";
+const PASSWORD = "fake-password";
+const REGION = "aws-us-east-2";
+
+// Postgres error codes and type OIDs the serverless driver understands
+const UNDEFINED_TABLE = "42P01";
+const TEXT_TYPE = 25;
+
+// Reported by the SQL endpoint with a Postgres error code
+class FakeSqlError extends Error {
+  constructor(
+    message: string,
+    readonly code?: string,
+  ) {
+    super(message);
+  }
+}
+
+class FakeApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export function createFakeNeonServer({
+  port = 0,
+  projectId = "fake-project-123456",
+  apiKey = "fake-api-key",
+  operationPolls = 1,
+  now = () => new Date(),
+}: FakeNeonServerOptions = {}): FakeNeonServer {
+  const state: FakeNeonState = {
+    branches: new Map(),
+    endpoints: new Map(),
+    snapshots: new Map(),
+    operations: new Map(),
+    annotations: new Map(),
+    migrations: new Map(),
+  };
+  let sequence = 0;
+  // The migrations table of each snapshot's branch when it was taken
+  const snapshotMigrations = new Map<string, AppliedMigration[]>();
+
+  const nextId = (prefix: string) =>
+    `${prefix}-fake-${String(++sequence).padStart(6, "0")}`;
+  const timestamp = () => now().toISOString();
+
+  function createOperation(
+    action: string,
+    branchId: string,
+    endpointId?: string,
+  ): NeonOperation {
+    const operation = {
+      id: nextId("op"),
+      project_id: projectId,
+      branch_id: branchId,
+      endpoint_id: endpointId,
+      action,
+      status: "running",
+      failures_count: 0,
+      created_at: timestamp(),
+      updated_at: timestamp(),
+      total_duration_ms: 0,
+      polls: 0,
+    };
+    state.operations.set(operation.id, operation);
+    return publicOperation(operation);
+  }
+
+  function publicOperation({
+    polls,
+    ...operation
+  }: NeonOperation & { polls: number }): NeonOperation {
+    return operation;
+  }
+
+  function insertBranch(
+    fields: Pick<NeonBranch, "name"> & Partial<NeonBranch>,
+  ): NeonBranch {
+    const branch: NeonBranch = {
+      id: nextId("br"),
+      project_id: projectId,
+      current_state: "ready",
+      state_changed_at: timestamp(),
+      logical_size: 0,
+      creation_source: "console",
+      primary: false,
+      default: false,
+      protected: false,
+      cpu_used_sec: 0,
+      compute_time_seconds: 0,
+      active_time_seconds: 0,
+      written_data_bytes: 0,
+      data_transfer_bytes: 0,
+      created_at: timestamp(),
+      updated_at: timestamp(),
+      created_by: { name: "fake", image: "" },
+      init_source: "parent-data",
+      ...fields,
+    };
+    state.branches.set(branch.id, branch);
+    return branch;
+  }
+
+  function insertEndpoint(
+    branchId: string,
+    type: NeonEndpoint["type"],
+    poolerEnabled = true,
+    compute: Partial<
+      Pick<
+        NeonEndpoint,
+        | "autoscaling_limit_min_cu"
+        | "autoscaling_limit_max_cu"
+        | "suspend_timeout_seconds"
+      >
+    > = {},
+  ): NeonEndpoint {
+    const id = nextId("ep");
+    const endpoint: NeonEndpoint = {
+      host: `${id}.c-2.us-east-2.aws.neon.tech`,
+      id,
+      project_id: projectId,
+      branch_id: branchId,
+      autoscaling_limit_min_cu: 0.25,
+      autoscaling_limit_max_cu: 2,
+      region_id: REGION,
+      type,
+      current_state: "idle",
+      settings: {},
+      pooler_enabled: poolerEnabled,
+      pooler_mode: "transaction",
+      disabled: false,
+      passwordless_access: true,
+      creation_source: "console",
+      created_at: timestamp(),
+      last_active: timestamp(),
+      updated_at: timestamp(),
+      proxy_host: "c-2.us-east-2.aws.neon.tech",
+      suspend_timeout_seconds: 0,
+      provisioner: "k8s-neonvm",
+      ...compute,
+    };
+    state.endpoints.set(endpoint.id, endpoint);
+    return endpoint;
+  }
+
+  function branchRoles(branchId: string): NeonRole[] {
+    return [
+      {
+        branch_id: branchId,
+        name: ROLE_NAME,
+        protected: false,
+        created_at: timestamp(),
+        updated_at: timestamp(),
+      },
+    ];
+  }
+
+  function branchDatabases(branchId: string): NeonDatabase[] {
+    return [
+      {
+        id: 1,
+        branch_id: branchId,
+        name: DATABASE_NAME,
+        owner_name: ROLE_NAME,
+        created_at: timestamp(),
+        updated_at: timestamp(),
+      },
+    ];
+  }
+
+  function branchEndpoints(branchId: string): NeonEndpoint[] {
+    return [...state.endpoints.values()].filter(
+      (endpoint) => endpoint.branch_id === branchId,
+    );
+  }
+
+  function connectionUri(endpoint: NeonEndpoint, pooled = false): string {
+    const host = pooled
+      ? endpoint.host.replace(/^(ep-[a-z0-9-]+)\./, "$1-pooler.")
+      : endpoint.host;
+    return `postgresql://${ROLE_NAME}:${PASSWORD}@${host}/${DATABASE_NAME}?sslmode=require`;
+  }
+
+  function connectionUris(branchId: string): ConnectionUri[] {
+    return branchEndpoints(branchId)
+      .filter((endpoint) => endpoint.type === "read_write")
+      .map((endpoint) => ({
+        connection_uri: connectionUri(endpoint),
+        connection_parameters: {
+          database: DATABASE_NAME,
+          password: PASSWORD,
+          role: ROLE_NAME,
+          host: endpoint.host,
+          pooler_host: endpoint.host.replace(
+            /^(ep-[a-z0-9-]+)\./,
+            "$1-pooler.",
+          ),
+        },
+      }));
+  }
+
+  // Branches start with a copy of their source's migrations table
+  function copyMigrations(fromBranchId: string, toBranchId: string) {
+    const rows = state.migrations.get(fromBranchId);
+    if (rows) {
+      state.migrations.set(toBranchId, [...rows]);
+    } else {
+      state.migrations.delete(toBranchId);
+    }
+  }
+
+  function findBranch(branchId: string): NeonBranch {
+    const branch = state.branches.get(branchId);
+    if (!branch) {
+      throw new FakeApiError(404, `branch ${branchId} not found`);
+    }
+    return branch;
+  }
+
+  function annotationsFor(branches: NeonBranch[]) {
+    return Object.fromEntries(
+      branches
+        .filter((branch) => state.annotations.has(branch.id))
+        .map((branch) => [
+          branch.id,
+          {
+            object: { type: "console/branch", id: branch.id },
+            value: state.annotations.get(branch.id),
+          },
+        ]),
+    );
+  }
+
+  // Cursors are the id of the last item on the previous page
+  function paginate<T extends { id: string }>(
+    items: T[],
+    url: URL,
+  ): { page: T[]; pagination: NeonPagination } {
+    const cursor = url.searchParams.get("cursor");
+    const limit = Number(url.searchParams.get("limit")) || items.length || 1;
+    const start = cursor
+      ? items.findIndex((item) => item.id === cursor) + 1
+      : 0;
+    const page = items.slice(start, start + limit);
+    const hasMore = start + limit < items.length;
+
+    return {
+      page,
+      pagination: {
+        next: hasMore ? page[page.length - 1]?.id : undefined,
+        sort_by: "created_at",
+        sort_order: "ASC",
+      },
+    };
+  }
+
+  async function readJson<T>(request: Request): Promise<T> {
+    try {
+      return (await request.json()) as T;
+    } catch {
+      throw new FakeApiError(400, "request body must be valid JSON");
+    }
+  }
+
+  function createBranch(payload: CreateBranchRequest) {
+    const parent = findBranch(payload.branch.parent_id);
+    const { parent_lsn, parent_timestamp } = payload.branch;
+
+    if (parent_lsn && parent_timestamp) {
+      throw new FakeApiError(
+        400,
+        "parent_lsn and parent_timestamp are mutually exclusive",
+      );
+    }
+    if (parent_timestamp) {
+      const time = Date.parse(parent_timestamp);
+      if (Number.isNaN(time)) {
+        throw new FakeApiError(400, "parent_timestamp must be RFC 3339");
+      }
+      if (time > now().getTime()) {
+        throw new FakeApiError(400, "parent_timestamp is in the future");
+      }
+      if (time < Date.parse(parent.created_at)) {
+        throw new FakeApiError(
+          400,
+          "parent_timestamp is before the parent branch was created",
+        );
+      }
+    }
+
+    const branch = insertBranch({
+      name: payload.branch.name ?? nextId("br"),
+      parent_id: parent.id,
+      parent_lsn,
+      parent_timestamp,
+      expire_at: payload.branch.expire_at,
+      init_source: payload.branch.init_source ?? "parent-data",
+      // Schema-only branches start without the parent's data
+      logical_size:
+        payload.branch.init_source === "schema-only" ? 0 : parent.logical_size,
+    });
+    if (payload.annotation_value) {
+      state.annotations.set(branch.id, payload.annotation_value);
+    }
+    copyMigrations(parent.id, branch.id);
+    // Schema-only branches get the parent's tables without their rows
+    if (
+      branch.init_source === "schema-only" &&
+      state.migrations.has(branch.id)
+    ) {
+      state.migrations.set(branch.id, []);
+    }
+    const operations = [createOperation("create_branch", branch.id)];
+    const endpoints = (payload.endpoints ?? []).map((spec) => {
+      const { type, pooler_enabled, ...compute } = spec;
+      const endpoint = insertEndpoint(branch.id, type, pooler_enabled, compute);
+      operations.push(createOperation("start_compute", branch.id, endpoint.id));
+      return endpoint;
+    });
+
+    return {
+      branch,
+      endpoints,
+      operations,
+      roles: branchRoles(branch.id),
+      databases: branchDatabases(branch.id),
+      connection_uris: connectionUris(branch.id),
+    };
+  }
+
+  function deleteBranch(branchId: string) {
+    const branch = findBranch(branchId);
+    if (branch.default) {
+      throw new FakeApiError(422, "cannot delete the default branch");
+    }
+    if ([...state.branches.values()].some((b) => b.parent_id === branchId)) {
+      throw new FakeApiError(422, "cannot delete a branch with children");
+    }
+
+    const operations = branchEndpoints(branchId).map((endpoint) => {
+      state.endpoints.delete(endpoint.id);
+      return createOperation("suspend_compute", branchId, endpoint.id);
+    });
+    operations.push(createOperation("delete_timeline", branchId));
+    state.branches.delete(branchId);
+    state.annotations.delete(branchId);
+    state.migrations.delete(branchId);
+
+    return { branch, operations };
+  }
+
+  function restoreSnapshot(
+    snapshotId: string,
+    payload: RestoreSnapshotRequest,
+  ) {
+    const snapshot = state.snapshots.get(snapshotId);
+    if (!snapshot) {
+      throw new FakeApiError(404, `snapshot ${snapshotId} not found`);
+    }
+
+    const branch = insertBranch({
+      name: payload.name ?? `${snapshot.name}-restored`,
+      parent_id: snapshot.source_branch_id,
+      parent_timestamp: snapshot.created_at,
+      expire_at: payload.expire_at,
+      creation_source: "snapshot",
+    });
+    const rows = snapshotMigrations.get(snapshot.id);
+    if (rows) {
+      state.migrations.set(branch.id, [...rows]);
+    }
+    const endpoint = insertEndpoint(branch.id, "read_write");
+
+    return {
+      branch,
+      operations: [
+        createOperation("create_branch", branch.id),
+        createOperation("start_compute", branch.id, endpoint.id),
+      ],
+    };
+  }
+
+  // Every fake project starts with production and a development child
+  const production = insertBranch({
+    name: "production",
+    primary: true,
+    default: true,
+  });
+  insertEndpoint(production.id, "read_write");
+  const development = insertBranch({
+    name: "development",
+    parent_id: production.id,
+  });
+  insertEndpoint(development.id, "read_write");
+
+  type Params = Record<string, string>;
+  type Handler = (
+    request: BunRequest & { params: Params },
+    url: URL,
+  ) => unknown | Promise<unknown>;
+
+  const project = `/api/v2/projects/:projectId`;
+
+  const routes: Record<string, Partial<Record<string, Handler>>> = {
+    [`${project}/branches`]: {
+      GET: (_, url) => {
+        const branches = [...state.branches.values()];
+        const { page, pagination } = paginate(branches, url);
+        return {
+          branches: page,
+          annotations: annotationsFor(page),
+          pagination,
+        };
+      },
+      POST: async (request) =>
+        createBranch(await readJson<CreateBranchRequest>(request)),
+    },
+    [`${project}/branches/:branchId`]: {
+      GET: ({ params }) => ({ branch: findBranch(params.branchId) }),
+      PATCH: async (request) => {
+        const branch = findBranch(request.params.branchId);
+        const { branch: changes, annotation_value } =
+          await readJson<UpdateBranchRequest>(request);
+        Object.assign(branch, changes, { updated_at: timestamp() });
+        if (annotation_value) {
+          state.annotations.set(branch.id, annotation_value);
+        }
+        if (changes.expire_at === null) {
+          delete branch.expire_at;
+        }
+        return {
+          branch,
+          operations: [createOperation("apply_config", branch.id)],
+        };
+      },
+      DELETE: ({ params }) => deleteBranch(params.branchId),
+    },
+    [`${project}/branches/:branchId/restore`]: {
+      POST: async (request) => {
+        const branch = findBranch(request.params.branchId);
+        const { source_branch_id, source_lsn, source_timestamp } =
+          await readJson<RestoreBranchRequest>(request);
+        const source = findBranch(source_branch_id);
+        if (source.id !== branch.parent_id) {
+          throw new FakeApiError(
+            400,
+            "the fake API only restores branches from their parent",
+          );
+        }
+        copyMigrations(source.id, branch.id);
+        Object.assign(branch, {
+          parent_lsn: source_lsn,
+          parent_timestamp: source_timestamp ?? timestamp(),
+          updated_at: timestamp(),
+        });
+        return {
+          branch,
+          operations: [createOperation("restore_branch", branch.id)],
+        };
+      },
+    },
+    [`${project}/branches/:branchId/endpoints`]: {
+      GET: ({ params }) => ({
+        endpoints: branchEndpoints(findBranch(params.branchId).id),
+      }),
+    },
+    [`${project}/branches/:branchId/roles`]: {
+      GET: ({ params }) => ({
+        roles: branchRoles(findBranch(params.branchId).id),
+      }),
+    },
+    [`${project}/branches/:branchId/roles/:roleName/reveal_password`]: {
+      GET: ({ params }) => {
+        findBranch(params.branchId);
+        if (params.roleName !== ROLE_NAME) {
+          throw new FakeApiError(404, `role ${params.roleName} not found`);
+        }
+        return { password: PASSWORD };
+      },
+    },
+    [`${project}/branches/:branchId/databases`]: {
+      GET: ({ params }) => ({
+        databases: branchDatabases(findBranch(params.branchId).id),
+      }),
+    },
+    [`${project}/branches/:branchId/snapshot`]: {
+      POST: ({ params }, url) => {
+        const branch = findBranch(params.branchId);
+        const snapshot: NeonSnapshot = {
+          id: nextId("snap"),
+          name: url.searchParams.get("name") ?? nextId("snapshot"),
+          source_branch_id: branch.id,
+          created_at: timestamp(),
+          expires_at: url.searchParams.get("expires_at") ?? undefined,
+          status: "active",
+          logical_size: branch.logical_size,
+        };
+        state.snapshots.set(snapshot.id, snapshot);
+        const rows = state.migrations.get(branch.id);
+        if (rows) {
+          snapshotMigrations.set(snapshot.id, [...rows]);
+        }
+        return {
+          snapshot,
+          operations: [createOperation("create_snapshot", branch.id)],
+        };
+      },
+    },
+    [`${project}/endpoints`]: {
+      GET: () => ({ endpoints: [...state.endpoints.values()] }),
+    },
+    [`${project}/endpoints/:endpointId`]: {
+      GET: ({ params }) => {
+        const endpoint = state.endpoints.get(params.endpointId);
+        if (!endpoint) {
+          throw new FakeApiError(
+            404,
+            `endpoint ${params.endpointId} not found`,
+          );
+        }
+        return { endpoint };
+      },
+    },
+    [`${project}/connection_uri`]: {
+      GET: (_, url) => {
+        const branchId = url.searchParams.get("branch_id") ?? production.id;
+        const endpointId = url.searchParams.get("endpoint_id");
+        const endpoint = branchEndpoints(findBranch(branchId).id).find((e) =>
+          endpointId ? e.id === endpointId : e.type === "read_write",
+        );
+        if (!endpoint) {
+          throw new FakeApiError(404, `branch ${branchId} has no endpoint`);
+        }
+        return {
+          uri: connectionUri(
+            endpoint,
+            url.searchParams.get("pooled") === "true",
+          ),
+        };
+      },
+    },
+    [`${project}/snapshots`]: {
+      GET: (_, url) => {
+        const { page, pagination } = paginate(
+          [...state.snapshots.values()],
+          url,
+        );
+        return { snapshots: page, pagination };
+      },
+    },
+    [`${project}/snapshots/:snapshotId`]: {
+      DELETE: ({ params }) => {
+        const snapshot = state.snapshots.get(params.snapshotId);
+        if (!snapshot) {
+          throw new FakeApiError(
+            404,
+            `snapshot ${params.snapshotId} not found`,
+          );
+        }
+        state.snapshots.delete(snapshot.id);
+        return {
+          snapshot,
+          operations: [
+            createOperation("delete_snapshot", snapshot.source_branch_id),
+          ],
+        };
+      },
+    },
+    [`${project}/snapshots/:snapshotId/restore`]: {
+      POST: async (request) =>
+        restoreSnapshot(
+          request.params.snapshotId,
+          await readJson<RestoreSnapshotRequest>(request),
+        ),
+    },
+    [`${project}/operations`]: {
+      GET: (_, url) => {
+        const { page, pagination } = paginate(
+          [...state.operations.values()],
+          url,
+        );
+        return { operations: page.map(publicOperation), pagination };
+      },
+    },
+    [`${project}/operations/:operationId`]: {
+      GET: ({ params }) => {
+        const operation = state.operations.get(params.operationId);
+        if (!operation) {
+          throw new FakeApiError(
+            404,
+            `operation ${params.operationId} not found`,
+          );
+        }
+        if (
+          operation.status === "running" &&
+          ++operation.polls >= operationPolls
+        ) {
+          operation.status = "finished";
+          operation.updated_at = timestamp();
+        }
+        return { operation: publicOperation(operation) };
+      },
+    },
+  };
+
+  function handle(handler: Handler) {
+    return async (request: BunRequest & { params: Params }) => {
+      try {
+        if (request.headers.get("authorization") !== `Bearer ${apiKey}`) {
+          throw new FakeApiError(401, "authentication required");
+        }
+        if (request.params.projectId !== projectId) {
+          throw new FakeApiError(
+            404,
+            `project ${request.params.projectId} not found`,
+          );
+        }
+        return Response.json(await handler(request, new URL(request.url)));
+      } catch (error) {
+        if (error instanceof FakeApiError) {
+          return Response.json(
+            { code: String(error.status), message: error.message },
+            { status: error.status },
+          );
+        }
+        throw error;
+      }
+    };
+  }
+
+  // The queries neon-flow sends over the serverless driver's HTTP protocol,
+  // only against the migrations table
+  function querySql(databaseUrl: string, query: string, params: unknown[]) {
+    const endpoint = findEndpointForDatabaseUrl(
+      [...state.endpoints.values()],
+      databaseUrl,
+    );
+    if (!endpoint) {
+      throw new FakeApiError(400, "connection string matches no endpoint");
+    }
+    const rows = state.migrations.get(endpoint.branch_id);
+
+    if (/^select hash, created_at from \S+ order by created_at$/.test(query)) {
+      if (!rows) {
+        throw new FakeSqlError(`relation does not exist`, UNDEFINED_TABLE);
+      }
+      return {
+        fields: [
+          { name: "hash", dataTypeID: TEXT_TYPE },
+          { name: "created_at", dataTypeID: TEXT_TYPE },
+        ],
+        rows: [...rows]
+          .sort((a, b) => Number(a.created_at) - Number(b.created_at))
+          .map((row) => [row.hash, row.created_at]),
+      };
+    }
+
+    if (/^insert into \S+ \(hash, created_at\)/.test(query)) {
+      // Arrays arrive as Postgres array literals, e.g. {"a","b"}
+      const [hashes, createdAts] = params.map(String).map((param) =>
+        param.startsWith("{")
+          ? param
+              .slice(1, -1)
+              .split(",")
+              .filter(Boolean)
+              .map((item) => item.replace(/^"|"$/g, ""))
+          : [param],
+      );
+      const inserted = hashes.map((hash, index) => ({
+        hash,
+        created_at: createdAts[index],
+      }));
+      state.migrations.set(endpoint.branch_id, [...(rows ?? []), ...inserted]);
+      return { fields: [], rows: [], rowCount: inserted.length };
+    }
+
+    throw new FakeSqlError(
+      "the fake only runs neon-flow's queries on the migrations table",
+    );
+  }
+
+  async function handleSql(request: Request) {
+    try {
+      const { query, params = [] } = await readJson<{
+        query: string;
+        params?: unknown[];
+      }>(request);
+      return Response.json(
+        querySql(
+          request.headers.get("neon-connection-string") ?? "",
+          query.replace(/\s+/g, " ").trim(),
+          params,
+        ),
+      );
+    } catch (error) {
+      if (error instanceof FakeSqlError || error instanceof FakeApiError) {
+        return Response.json(
+          {
+            message: error.message,
+            code: error instanceof FakeSqlError ? error.code : undefined,
+          },
+          { status: 400 },
+        );
+      }
+      throw error;
+    }
+  }
+
+  const server = Bun.serve({
+    port,
+    routes: {
+      ...Object.fromEntries(
+        Object.entries(routes).map(([path, methods]) => [
+          path,
+          Object.fromEntries(
+            Object.entries(methods).map(([method, handler]) => [
+              method,
+              handle(handler!),
+            ]),
+          ),
+        ]),
+      ),
+      "/sql": { POST: handleSql },
+    },
+    fetch: () =>
+      Response.json({ code: "404", message: "not found" }, { status: 404 }),
+  });
+
+  return {
+    baseUrl: `http://localhost:${server.port}/api/v2`,
+    sqlUrl: `http://localhost:${server.port}/sql`,
+    projectId,
+    apiKey,
+    state,
+    stop: () => server.stop(true),
+  };
+}
+
+if (import.meta.main) {
+  const fake = createFakeNeonServer({
+    port: Number(process.env.PORT) || 4010,
+    projectId: process.env.NEON_PROJECT_ID,
+    apiKey: process.env.NEON_API_KEY,
+  });
+
+  console.log("🧪 Fake Neon API running. Point the CLI at it with:");
+  console.log(`   NEON_API_BASE_URL=${fake.baseUrl}`);
+  console.log(`   NEON_API_KEY=${fake.apiKey}`);
+  console.log(`   NEON_PROJECT_ID=${fake.projectId}`);
+  console.log(`   NEON_SQL_URL=${fake.sqlUrl}`);
+}
@@ -0,0 +1,164 @@
+// Thin wrapper around the git CLI used by the commands
+
+import { $ } from "bun";
+
+import { GitError, UsageError } from "./errors";
+
+export async function git(...args: string[]): Promise<string> {
+  const result = await $`git ${args}`.quiet().nothrow();
+
+  if (result.exitCode !== 0) {
+    const stderr = result.stderr.toString().trim();
+    throw new GitError(
+      `git ${args.join(" ")} failed${stderr ? `: ${stderr}` : ` with exit code ${result.exitCode}`}`,
+      args,
+    );
+  }
+
+  return result.stdout.toString().trim();
+}
+
+export async function isGitRepository(): Promise<boolean> {
+  try {
+    await git("rev-parse", "--is-inside-work-tree");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Empty string when HEAD is detached
+export async function currentGitBranch(): Promise<string> {
+  return git("branch", "--show-current");
+}
+
+export async function currentCommit(): Promise<string> {
+  return git("rev-parse", "--short", "HEAD");
+}
+
+// Whether a branch, tag or commit hash resolves to a local commit
+export async function commitExists(ref: string): Promise<boolean> {
+  try {
+    await git("rev-parse", "--verify", "--quiet", `${ref}^{commit}`);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function branchExists(branch: string): Promise<boolean> {
+  return commitExists(`refs/heads/${branch}`);
+}
+
+// The repository's root directory and the current directory relative to
+// it, e.g. "neon-custom-dev-flow/"
+export async function repositoryRoot(): Promise<string> {
+  return git("rev-parse", "--show-toplevel");
+}
+
+export async function repositoryPrefix(): Promise<string> {
+  return git("rev-parse", "--show-prefix");
+}
+
+export interface Worktree {
+  path: string;
+  // null when HEAD is detached
+  branch: string | null;
+}
+
+// The main checkout comes first
+export async function listWorktrees(): Promise<Worktree[]> {
+  const output = await git("worktree", "list", "--porcelain");
+  return output
+    .split("\n\n")
+    .filter((entry) => entry.trim())
+    .map((entry) => {
+      const lines = entry.split("\n");
+      const path = lines.find((line) => line.startsWith("worktree "));
+      const branch = lines.find((line) => line.startsWith("branch "));
+      return {
+        path: path?.slice("worktree ".length) ?? "",
+        branch: branch?.slice("branch refs/heads/".length) ?? null,
+      };
+    });
+}
+
+// Linked worktrees only, the main checkout is never added or removed
+export async function findWorktree(
+  branch: string,
+): Promise<Worktree | undefined> {
+  return (await listWorktrees())
+    .slice(1)
+    .find((worktree) => worktree.branch === branch);
+}
+
+export interface GitBranchInfo {
+  name: string;
+  local: boolean;
+  // Whether origin has the branch
+  remote: boolean;
+  // A local branch whose upstream was deleted on origin
+  upstreamGone: boolean;
+  // Whether every copy of the branch, local and on origin, is merged
+  // into trunk
+  merged: boolean;
+  // Committer date of the newest copy
+  lastCommitAt: string;
+}
+
+// Local branches and the branches on origin, by name. origin's are only as
+// current as the last fetch.
+export async function listGitBranches(
+  trunk: string,
+): Promise<Map<string, GitBranchInfo>> {
+  const format = "%(refname)%09%(committerdate:iso-strict)%09%(upstream:track)";
+  const refs = ["refs/heads", "refs/remotes/origin"];
+  const [output, mergedOutput] = await Promise.all([
+    git("for-each-ref", `--format=${format}`, ...refs),
+    git("for-each-ref", "--merged", trunk, "--format=%(refname)", ...refs),
+  ]);
+  const merged = new Set(mergedOutput.split("\n"));
+
+  const branches = new Map<string, GitBranchInfo>();
+  for (const line of output.split("\n").filter(Boolean)) {
+    const [ref, committedAt, track] = line.split("\t");
+    const local = ref.startsWith("refs/heads/");
+    const name = ref.replace(/^refs\/(heads|remotes\/origin)\//, "");
+    if (!local && name === "HEAD") {
+      continue;
+    }
+
+    const branch = branches.get(name) ?? {
+      name,
+      local: false,
+      remote: false,
+      upstreamGone: false,
+      merged: true,
+      lastCommitAt: committedAt,
+    };
+    if (local) {
+      branch.local = true;
+      branch.upstreamGone = track === "[gone]";
+    } else {
+      branch.remote = true;
+    }
+    branch.merged &&= merged.has(ref);
+    if (new Date(committedAt) > new Date(branch.lastCommitAt)) {
+      branch.lastCommitAt = committedAt;
+    }
+    branches.set(name, branch);
+  }
+  return branches;
+}
+
+export function validateCommitId(commitId: string | undefined): string {
+  if (!commitId) {
+    throw new UsageError("Commit ID is required");
+  }
+  if (commitId.length < 7) {
+    throw new UsageError(
+      "Invalid commit ID provided. Expected format: git commit hash (at least 7 characters)",
+    );
+  }
+  return commitId;
+}
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  findPreviousConnection,
+  journalPath,
+  readJournal,
+  recordDatabaseUrlChange,
+  type JournalEntry,
+} from "./journal";
+
+const DEVELOPMENT = "postgresql://u:p@ep-dev.neon.tech/neondb";
+const FEATURE = "postgresql://u:p@ep-feature.neon.tech/neondb";
+const OTHER = "postgresql://u:p@ep-other.neon.tech/neondb";
+
+let dir: string;
+let envPath: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "neon-flow-journal-"));
+  envPath = join(dir, ".env");
+  writeFileSync(envPath, `DATABASE_URL="${DEVELOPMENT}"\n`);
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function entry(overrides: Partial<JournalEntry>): JournalEntry {
+  return {
+    changedAt: "2025-01-01T00:00:00.000Z",
+    fromBranch: null,
+    toBranch: null,
+    previous: {},
+    databaseUrl: FEATURE,
+    ...overrides,
+  };
+}
+
+describe("recordDatabaseUrlChange", () => {
+  test("records the previous values of the changed variables", () => {
+    recordDatabaseUrlChange(
+      { DATABASE_URL: FEATURE, READ_DATABASE_URL: OTHER },
+      "alice-search",
+      envPath,
+    );
+
+    expect(readJournal(envPath)).toEqual([
+      {
+        changedAt: expect.any(String),
+        fromBranch: null,
+        toBranch: "alice-search",
+        previous: { DATABASE_URL: DEVELOPMENT, READ_DATABASE_URL: null },
+        databaseUrl: FEATURE,
+      },
+    ]);
+  });
+
+  test("skips updates that leave DATABASE_URL as it is", () => {
+    recordDatabaseUrlChange({ DATABASE_URL: DEVELOPMENT }, "dev", envPath);
+    recordDatabaseUrlChange({ READ_DATABASE_URL: OTHER }, "dev", envPath);
+
+    expect(readJournal(envPath)).toEqual([]);
+  });
+
+  test("knows the previous branch unless .env was edited since", () => {
+    recordDatabaseUrlChange({ DATABASE_URL: FEATURE }, "alice-search", envPath);
+    writeFileSync(envPath, `DATABASE_URL="${FEATURE}"\n`);
+    recordDatabaseUrlChange({ DATABASE_URL: OTHER }, "alice-filters", envPath);
+    // By hand
+    writeFileSync(envPath, `DATABASE_URL="${DEVELOPMENT}"\n`);
+    recordDatabaseUrlChange({ DATABASE_URL: FEATURE }, "alice-search", envPath);
+
+    expect(readJournal(envPath).map((change) => change.fromBranch)).toEqual([
+      null,
+      "alice-search",
+      null,
+    ]);
+  });
+
+  test("keeps the newest 50 entries", () => {
+    for (let index = 0; index < 55; index++) {
+      const url = `postgresql://u:p@ep-${index}.neon.tech/neondb`;
+      recordDatabaseUrlChange(
+        { DATABASE_URL: url },
+        `branch-${index}`,
+        envPath,
+      );
+      writeFileSync(envPath, `DATABASE_URL="${url}"\n`);
+    }
+
+    const journal = readJournal(envPath);
+    expect(journal).toHaveLength(50);
+    expect(journal[0].toBranch).toBe("branch-5");
+  });
+});
+
+describe("readJournal", () => {
+  test("is empty without a journal or when it can't be parsed", () => {
+    expect(readJournal(envPath)).toEqual([]);
+
+    writeFileSync(journalPath(envPath), "{ not json");
+    expect(readJournal(envPath)).toEqual([]);
+  });
+});
+
+describe("findPreviousConnection", () => {
+  test("returns the newest entry with a previous DATABASE_URL", () => {
+    const journal = [
+      entry({ previous: { DATABASE_URL: DEVELOPMENT } }),
+      entry({ previous: { DATABASE_URL: FEATURE }, fromBranch: "alice" }),
+      entry({ previous: { DATABASE_URL: null } }),
+    ];
+
+    expect(findPreviousConnection(journal, () => false)).toEqual({
+      entry: journal[1],
+      index: 1,
+      databaseUrl: FEATURE,
+    });
+  });
+
+  test("passes over connections to branches that are gone", () => {
+    const journal = [
+      entry({ previous: { DATABASE_URL: DEVELOPMENT }, fromBranch: "dev" }),
+      entry({ previous: { DATABASE_URL: FEATURE }, fromBranch: "alice" }),
+      entry({ previous: { DATABASE_URL: OTHER } }),
+    ];
+
+    expect(
+      findPreviousConnection(journal, (branch) => branch === "alice")?.index,
+    ).toBe(2);
+    expect(
+      findPreviousConnection(
+        journal.slice(0, 2),
+        (branch) => branch === "alice",
+      )?.databaseUrl,
+    ).toBe(DEVELOPMENT);
+    expect(findPreviousConnection(journal.slice(0, 2), () => true)).toBe(
+      undefined,
+    );
+  });
+});
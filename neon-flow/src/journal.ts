@@ -0,0 +1,112 @@
+// Local history of the connections DATABASE_URL pointed at, kept next to
+// .env in .env.journal.json so db back and feature cleanup can return to
+// the previous one. .env* is gitignored, so the journal is too.
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import {
+  envFilePath,
+  getEnvValue,
+  readEnvFile,
+  type EnvUpdates,
+} from "./env-file";
+
+export const JOURNAL_FILE_NAME = ".env.journal.json";
+
+// Older entries are dropped
+const MAX_ENTRIES = 50;
+
+export interface JournalEntry {
+  changedAt: string;
+  // Neon branch names before and after the change, null when unknown, e.g.
+  // after an edit by hand
+  fromBranch: string | null;
+  toBranch: string | null;
+  // Values of the changed variables before the change, null for the ones
+  // .env didn't have. Applying them undoes the change.
+  previous: EnvUpdates;
+  // DATABASE_URL after the change
+  databaseUrl: string;
+}
+
+export function journalPath(envPath = envFilePath()): string {
+  return join(dirname(envPath), JOURNAL_FILE_NAME);
+}
+
+// Oldest first, empty when there is no journal or it can't be parsed
+export function readJournal(envPath = envFilePath()): JournalEntry[] {
+  const path = journalPath(envPath);
+  if (!existsSync(path)) {
+    return [];
+  }
+  try {
+    const entries = JSON.parse(readFileSync(path, "utf8"));
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeJournal(
+  entries: JournalEntry[],
+  envPath = envFilePath(),
+): void {
+  writeFileSync(
+    journalPath(envPath),
+    `${JSON.stringify(entries.slice(-MAX_ENTRIES), null, 2)}\n`,
+  );
+}
+
+// Call before writing the updates to .env. Only changes of DATABASE_URL
+// are recorded.
+export function recordDatabaseUrlChange(
+  updates: EnvUpdates,
+  toBranch: string | null,
+  envPath = envFilePath(),
+): void {
+  const content = readEnvFile(envPath);
+  const databaseUrl = updates.DATABASE_URL;
+  const current = getEnvValue(content, "DATABASE_URL") ?? null;
+  if (!databaseUrl || databaseUrl === current) {
+    return;
+  }
+
+  // The branch is only known if nobody edited .env since the last entry
+  const journal = readJournal(envPath);
+  const last = journal[journal.length - 1];
+  writeJournal(
+    [
+      ...journal,
+      {
+        changedAt: new Date().toISOString(),
+        fromBranch: last?.databaseUrl === current ? last.toBranch : null,
+        toBranch,
+        previous: Object.fromEntries(
+          Object.keys(updates).map((key) => [
+            key,
+            getEnvValue(content, key) ?? null,
+          ]),
+        ),
+        databaseUrl,
+      },
+    ],
+    envPath,
+  );
+}
+
+// The newest entry whose previous connection can be restored: it had a
+// DATABASE_URL and its branch, when known, isn't gone. Restoring it
+// rewinds the journal to index.
+export function findPreviousConnection(
+  journal: JournalEntry[],
+  isGone: (branch: string) => boolean,
+): { entry: JournalEntry; index: number; databaseUrl: string } | undefined {
+  for (let index = journal.length - 1; index >= 0; index--) {
+    const entry = journal[index];
+    const databaseUrl = entry.previous.DATABASE_URL;
+    if (databaseUrl && !(entry.fromBranch && isGone(entry.fromBranch))) {
+      return { entry, index, databaseUrl };
+    }
+  }
+  return undefined;
+}
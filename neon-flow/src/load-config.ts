@@ -0,0 +1,228 @@
+// Finds, loads and validates the project's neon-flow.config.ts
+
+import { existsSync } from "fs";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import {
+  CONFIG_FILE_NAME,
+  DEFAULT_CONFIG,
+  MASK_RULES,
+  type MaskRule,
+  type NeonFlowConfig,
+  type NeonFlowUserConfig,
+} from "./config";
+import { isComputeUnits, isSuspendTimeout } from "./compute";
+import { InvalidConfigError } from "./errors";
+
+type Check = (value: unknown) => string | undefined;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const stringList: Check = (value) =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((item) => typeof item === "string" && item.length > 0)
+    ? undefined
+    : "must be a non-empty list of branch names";
+
+const positiveInteger: Check = (value) =>
+  Number.isInteger(value) && (value as number) > 0
+    ? undefined
+    : "must be a positive whole number";
+
+const nonEmptyString: Check = (value) =>
+  typeof value === "string" && value.length > 0
+    ? undefined
+    : "must be a non-empty string";
+
+// Snapshot and branch name prefixes end up in Neon resource names
+const namePrefix: Check = (value) =>
+  typeof value === "string" && /^[a-zA-Z0-9-]+$/.test(value)
+    ? undefined
+    : "must only contain letters, digits and dashes";
+
+const optionalCommand: Check = (value) =>
+  value === null || (typeof value === "string" && value.trim().length > 0)
+    ? undefined
+    : "must be a shell command or null";
+
+// schema.table, the way drizzle-kit's migrations.schema and .table end up
+const qualifiedTable: Check = (value) =>
+  typeof value === "string" && /^[a-zA-Z_][\w$]*\.[a-zA-Z_][\w$]*$/.test(value)
+    ? undefined
+    : 'must be a schema-qualified table name, e.g. "drizzle.__drizzle_migrations"';
+
+const identifier = /^[a-zA-Z_][\w$]*$/;
+
+const columnName: Check = (value) =>
+  typeof value === "string" && identifier.test(value)
+    ? undefined
+    : "must be a column name";
+
+// { table: { column: rule } }, tables may be schema-qualified
+const maskingTables: Check = (value) => {
+  if (!isObject(value)) {
+    return 'must map table names to columns, e.g. { contacts: { email: "email" } }';
+  }
+  for (const [table, columns] of Object.entries(value)) {
+    if (!table.split(".").every((part) => identifier.test(part))) {
+      return `has an invalid table name '${table}'`;
+    }
+    if (!isObject(columns) || Object.keys(columns).length === 0) {
+      return `has no columns for table '${table}'`;
+    }
+    for (const [column, rule] of Object.entries(columns)) {
+      if (!identifier.test(column)) {
+        return `has an invalid column name '${column}' in '${table}'`;
+      }
+      if (!MASK_RULES.includes(rule as MaskRule)) {
+        return `maps ${table}.${column} to '${rule}', expected one of: ${MASK_RULES.join(", ")}`;
+      }
+    }
+  }
+  return undefined;
+};
+
+const optionalComputeUnits: Check = (value) =>
+  value === null || isComputeUnits(value)
+    ? undefined
+    : "must be compute units in steps of 0.25, e.g. 0.25 or 2, or null";
+
+const optionalSuspendTimeout: Check = (value) =>
+  value === null || isSuspendTimeout(value)
+    ? undefined
+    : "must be seconds, -1 to never suspend, or null";
+
+const boolean: Check = (value) =>
+  typeof value === "boolean" ? undefined : "must be true or false";
+
+const fn: Check = (value) =>
+  typeof value === "function" ? undefined : "must be a function";
+
+const CHECKS: {
+  [Section in keyof NeonFlowConfig]: Record<
+    keyof NeonFlowConfig[Section],
+    Check
+  >;
+} = {
+  branches: {
+    development: stringList,
+    production: stringList,
+    protected: stringList,
+    name: fn,
+  },
+  git: {
+    baseBranch: nonEmptyString,
+    worktreesDir: nonEmptyString,
+  },
+  ttl: {
+    featureDays: positiveInteger,
+    testDays: positiveInteger,
+    snapshotMonths: positiveInteger,
+    archiveDays: positiveInteger,
+  },
+  gc: {
+    staleDays: positiveInteger,
+  },
+  snapshots: {
+    prefix: namePrefix,
+    testBranchPrefix: namePrefix,
+    archivePrefix: namePrefix,
+  },
+  seed: {
+    command: optionalCommand,
+  },
+  migrations: {
+    dir: nonEmptyString,
+    table: qualifiedTable,
+    command: optionalCommand,
+  },
+  compute: {
+    minCu: optionalComputeUnits,
+    maxCu: optionalComputeUnits,
+    suspendTimeoutSeconds: optionalSuspendTimeout,
+    readReplica: boolean,
+  },
+  masking: {
+    tables: maskingTables,
+    key: columnName,
+  },
+};
+
+// Merges the user's settings over the defaults, collecting every problem
+// instead of stopping at the first so they can all be fixed at once
+export function resolveConfig(
+  userConfig: unknown,
+  path = CONFIG_FILE_NAME,
+): NeonFlowConfig {
+  if (!isObject(userConfig)) {
+    throw new InvalidConfigError(path, [
+      "the default export must be an object, e.g. export default defineConfig({ ... })",
+    ]);
+  }
+
+  const problems: string[] = [];
+  const config: Record<string, Record<string, unknown>> = Object.fromEntries(
+    Object.entries(DEFAULT_CONFIG).map(([section, defaults]) => [
+      section,
+      { ...defaults },
+    ]),
+  );
+
+  for (const [section, settings] of Object.entries(userConfig)) {
+    const checks = CHECKS[section as keyof NeonFlowConfig] as
+      Record<string, Check> | undefined;
+
+    if (!checks) {
+      problems.push(
+        `unknown section '${section}', expected one of: ${Object.keys(CHECKS).join(", ")}`,
+      );
+      continue;
+    }
+    if (!isObject(settings)) {
+      problems.push(`${section} must be an object`);
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(settings)) {
+      const check = checks[key];
+      if (!check) {
+        problems.push(
+          `unknown setting '${section}.${key}', expected one of: ${Object.keys(checks).join(", ")}`,
+        );
+        continue;
+      }
+      if (value === undefined) {
+        continue;
+      }
+
+      const problem = check(value);
+      if (problem) {
+        problems.push(`${section}.${key} ${problem}`);
+      } else {
+        config[section][key] = value;
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new InvalidConfigError(path, problems);
+  }
+
+  return config as unknown as NeonFlowConfig;
+}
+
+// Uses the defaults when the project has no config file
+export async function loadConfig(cwd = process.cwd()): Promise<NeonFlowConfig> {
+  const path = join(cwd, CONFIG_FILE_NAME);
+  if (!existsSync(path)) {
+    return resolveConfig({});
+  }
+
+  const module = (await import(pathToFileURL(path).href)) as {
+    default?: NeonFlowUserConfig;
+  };
+  return resolveConfig(module.default, CONFIG_FILE_NAME);
+}
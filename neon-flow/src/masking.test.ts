@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { maskValue, maskingSalt } from "./masking";
+
+const SALT = "test-salt";
+
+describe("maskValue", () => {
+  test("keeps a name's word count and capitalization", () => {
+    const masked = maskValue("name", "Ada LOVELACE de Vries", SALT);
+    const words = masked.split(" ");
+
+    expect(words).toHaveLength(4);
+    expect(words[0]).toMatch(/^[A-Z][a-z]+$/);
+    expect(words[1]).toMatch(/^[A-Z]+$/);
+    expect(words[2]).toMatch(/^[a-z]+$/);
+    expect(masked).not.toContain("Ada");
+  });
+
+  test("keeps an email's shape on a reserved domain", () => {
+    const masked = maskValue("email", "Ada.Lovelace+news@acme.io", SALT);
+
+    expect(masked).toMatch(
+      /^[A-Z][a-z]{2}\.[A-Z][a-z]{7}\+[a-z]{4}@example\.com$/,
+    );
+  });
+
+  test("replaces only the digits of a phone number", () => {
+    const masked = maskValue("phone", "+1 (415) 555-0132", SALT);
+
+    expect(masked).toMatch(/^\+\d \(\d{3}\) \d{3}-\d{4}$/);
+    expect(masked).not.toBe("+1 (415) 555-0132");
+  });
+
+  test("keeps the character classes of text", () => {
+    expect(maskValue("text", "AB-12 cd", SALT)).toMatch(
+      /^[A-Z]{2}-\d{2} [a-z]{2}$/,
+    );
+  });
+
+  test("masks a value the same way for the same salt only", () => {
+    const { salt } = maskingSalt({ NEON_FLOW_MASKING_SALT: SALT });
+
+    expect(maskValue("email", "ada@acme.io", salt)).toBe(
+      maskValue("email", "ada@acme.io", SALT),
+    );
+    expect(maskValue("email", "ada@acme.io", salt)).not.toBe(
+      maskValue("email", "ada@acme.io", "other-salt"),
+    );
+  });
+});
+
+describe("maskingSalt", () => {
+  test("uses NEON_FLOW_MASKING_SALT, or a new random salt per run", () => {
+    expect(maskingSalt({ NEON_FLOW_MASKING_SALT: SALT })).toEqual({
+      salt: SALT,
+      random: false,
+    });
+    const first = maskingSalt({});
+    expect(first.random).toBe(true);
+    expect(maskingSalt({}).salt).not.toBe(first.salt);
+  });
+});
@@ -0,0 +1,241 @@
+// Rewrites personal data on a branch with fake values (masking.tables)
+//
+// Fake values are derived from an HMAC of the original keyed with
+// NEON_FLOW_MASKING_SALT, so a value masks the same way on every branch and
+// in every table, and keep their format: same word count and
+// capitalization, same separators, same number of digits. Without the
+// secret, nobody can hash a list of candidate values to match the fakes.
+// When it isn't set, every run uses a random salt.
+
+import { createHmac, randomBytes } from "crypto";
+import type { MaskRule, NeonFlowConfig } from "./config";
+import { branchSql } from "./connection";
+import { ConfigError, MaskingError, NeonFlowError } from "./errors";
+import { createRandom, type Random } from "./random";
+
+const FAKE_NAMES = [
+  "Alex",
+  "Bailey",
+  "Casey",
+  "Drew",
+  "Emery",
+  "Finley",
+  "Harper",
+  "Jordan",
+  "Kai",
+  "Logan",
+  "Morgan",
+  "Parker",
+  "Quinn",
+  "Reese",
+  "Riley",
+  "Rowan",
+  "Sage",
+  "Skyler",
+  "Taylor",
+  "Avery",
+  "Brooks",
+  "Carter",
+  "Ellis",
+  "Hayes",
+  "Lane",
+  "Marlow",
+  "Nash",
+  "Porter",
+  "Reed",
+  "Sutton",
+];
+
+const LOWERCASE = "abcdefghijklmnopqrstuvwxyz";
+const UPPERCASE = LOWERCASE.toUpperCase();
+const DIGITS = "0123456789";
+
+// Rows read and updated per query
+const BATCH_SIZE = 1000;
+
+// Seeds the fake values, the first 32 bits of the value's HMAC
+function hash(value: string, salt: string): number {
+  return createHmac("sha256", salt).update(value).digest().readUInt32BE(0);
+}
+
+// Letters stay letters of the same case, digits stay digits
+function maskCharacters(value: string, random: Random): string {
+  return value.replace(/[a-zA-Z0-9]/g, (char) => {
+    const alphabet = /[a-z]/.test(char)
+      ? LOWERCASE
+      : /[A-Z]/.test(char)
+        ? UPPERCASE
+        : DIGITS;
+    return random.pick(alphabet);
+  });
+}
+
+function maskName(value: string, random: Random): string {
+  return value.replace(/[^\s]+/g, (word) => {
+    const name = random.pick(FAKE_NAMES);
+    if (word === word.toUpperCase() && word !== word.toLowerCase()) {
+      return name.toUpperCase();
+    }
+    return /^[a-z]/.test(word) ? name.toLowerCase() : name;
+  });
+}
+
+// example.com is reserved (RFC 2606), so masked addresses never receive mail
+function maskEmail(value: string, random: Random): string {
+  const at = value.lastIndexOf("@");
+  if (at === -1) {
+    return maskCharacters(value, random);
+  }
+  return `${maskCharacters(value.slice(0, at), random)}@example.com`;
+}
+
+function maskPhone(value: string, random: Random): string {
+  return value.replace(/\d/g, () => random.pick(DIGITS));
+}
+
+const MASKS: Record<MaskRule, (value: string, random: Random) => string> = {
+  name: maskName,
+  email: maskEmail,
+  phone: maskPhone,
+  text: maskCharacters,
+};
+
+export function maskValue(rule: MaskRule, value: string, salt: string): string {
+  return MASKS[rule](value, createRandom(hash(value, salt)));
+}
+
+// NEON_FLOW_MASKING_SALT, or a random salt for this run only
+export function maskingSalt(env: NodeJS.ProcessEnv = process.env): {
+  salt: string;
+  random: boolean;
+} {
+  const salt = env.NEON_FLOW_MASKING_SALT;
+  return salt
+    ? { salt, random: false }
+    : { salt: randomBytes(32).toString("hex"), random: true };
+}
+
+// "public.contacts" -> "public"."contacts"
+function quoteIdentifier(name: string): string {
+  return name
+    .split(".")
+    .map((part) => `"${part}"`)
+    .join(".");
+}
+
+// Masks one table in batches ordered by the key column, returns the
+// number of rows it rewrote
+async function maskTable(
+  databaseUrl: string,
+  table: string,
+  key: string,
+  rules: Record<string, MaskRule>,
+  salt: string,
+): Promise<number> {
+  const sql = branchSql(databaseUrl);
+  const columns = Object.keys(rules);
+  const quotedTable = quoteIdentifier(table);
+  const quotedKey = quoteIdentifier(key);
+  const selectList = columns.map(quoteIdentifier).join(", ");
+
+  // Updates match rows by the key in its own type, so its index is used
+  const [keyColumn] = (await sql.query(
+    `select format_type(atttypid, atttypmod) as key_type
+     from pg_attribute where attrelid = $1::regclass and attname = $2`,
+    [quotedTable, key],
+  )) as { key_type: string }[];
+  if (!keyColumn) {
+    throw new ConfigError(
+      `Can't mask ${table}: it has no column '${key}', set masking.key in neon-flow.config.ts`,
+    );
+  }
+  const keyType = keyColumn.key_type;
+
+  const assignments = columns
+    .map((column, i) => `${quoteIdentifier(column)} = v.c${i}`)
+    .join(", ");
+  const unnestTypes = columns.map((_, i) => `$${i + 2}::text[]`).join(", ");
+  const unnestNames = columns.map((_, i) => `c${i}`).join(", ");
+
+  let masked = 0;
+  let after: string | null = null;
+
+  for (;;) {
+    const rows = (await sql.query(
+      `select ${quotedKey}::text as key, ${selectList} from ${quotedTable}
+       ${after === null ? "" : `where ${quotedKey} > $1::${keyType}`}
+       order by ${quotedKey} limit ${BATCH_SIZE}`,
+      after === null ? [] : [after],
+    )) as Record<string, string | null>[];
+
+    if (rows.length === 0) {
+      return masked;
+    }
+
+    await sql.query(
+      `update ${quotedTable} as t set ${assignments}
+       from unnest($1::text[], ${unnestTypes}) as v(key, ${unnestNames})
+       where t.${quotedKey} = v.key::${keyType}`,
+      [
+        rows.map((row) => row.key),
+        ...columns.map((column) =>
+          rows.map((row) => {
+            const value = row[column];
+            return value === null
+              ? null
+              : maskValue(rules[column], value, salt);
+          }),
+        ),
+      ],
+    );
+
+    masked += rows.length;
+    after = rows[rows.length - 1].key;
+  }
+}
+
+// "name (name), email (email)"
+export function describeMaskingRules(rules: Record<string, MaskRule>): string {
+  return Object.entries(rules)
+    .map(([column, rule]) => `${column} (${rule})`)
+    .join(", ");
+}
+
+// Returns the number of rows rewritten per table
+export async function maskBranch(
+  databaseUrl: string,
+  masking: NeonFlowConfig["masking"],
+): Promise<Record<string, number>> {
+  const { salt, random } = maskingSalt();
+  if (random) {
+    console.log(
+      "   💡 NEON_FLOW_MASKING_SALT is not set, values mask differently on each branch",
+    );
+  }
+  const masked: Record<string, number> = {};
+  for (const [table, rules] of Object.entries(masking.tables)) {
+    console.log(`   🎭 ${table}: ${describeMaskingRules(rules)}`);
+    try {
+      masked[table] = await maskTable(
+        databaseUrl,
+        table,
+        masking.key,
+        rules,
+        salt,
+      );
+    } catch (error) {
+      throw error instanceof NeonFlowError
+        ? error
+        : new MaskingError(table, error);
+    }
+  }
+  return masked;
+}
+
+export function countMaskedRows(masked: Record<string, number>): number {
+  return Object.values(masked).reduce((sum, rows) => sum + rows, 0);
+}
+
+export function hasMaskingRules(masking: NeonFlowConfig["masking"]): boolean {
+  return Object.keys(masking.tables).length > 0;
+}
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createFakeNeonServer, type FakeNeonServer } from "./fake-server";
+import {
+  findPendingMigrations,
+  migrationConflicts,
+  migrationHash,
+  pendingMigrations,
+  verifyMigrationJournal,
+  type AppliedMigration,
+  type MigrationJournalEntry,
+} from "./migrations";
+
+const TABLE = "drizzle.__drizzle_migrations";
+
+let fixtureDirs: string[] = [];
+
+// migrations/ with a SQL file per tag, the journal is returned instead of
+// written since the functions under test take it as an argument
+function fixture(...tags: string[]) {
+  const dir = mkdtempSync(join(tmpdir(), "neon-flow-migrations-"));
+  fixtureDirs.push(dir);
+  mkdirSync(join(dir, "meta"));
+  const journal: MigrationJournalEntry[] = tags.map((tag, idx) => {
+    writeFileSync(join(dir, `${tag}.sql`), `-- ${tag}\n`);
+    return { idx, when: 1_700_000_000_000 + idx * 1000, tag };
+  });
+  const applied = (...entries: MigrationJournalEntry[]): AppliedMigration[] =>
+    entries.map((entry) => ({
+      hash: migrationHash(dir, entry)!,
+      created_at: String(entry.when),
+    }));
+  return { dir, journal, applied };
+}
+
+afterEach(() => {
+  for (const dir of fixtureDirs) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+  fixtureDirs = [];
+});
+
+describe("verifyMigrationJournal", () => {
+  test("accepts a journal in order with every SQL file", () => {
+    const { dir, journal } = fixture("0000_init", "0001_contacts");
+
+    expect(verifyMigrationJournal(dir, journal)).toEqual([]);
+  });
+
+  test("reports entries out of order, duplicates and missing files", () => {
+    const { dir, journal } = fixture("0000_init", "0001_contacts");
+    const broken: MigrationJournalEntry[] = [
+      journal[0],
+      { ...journal[1], when: journal[0].when },
+      { idx: 5, when: journal[1].when + 1000, tag: "0000_init" },
+      { idx: 3, when: journal[1].when + 2000, tag: "0003_missing" },
+    ];
+
+    expect(verifyMigrationJournal(dir, broken)).toEqual([
+      "0001_contacts is not newer than 0000_init, drizzle-kit would skip it on branches that have the earlier one",
+      "0000_init has idx 5, expected 2",
+      "0000_init is listed more than once",
+      `${join(dir, "0003_missing.sql")} not found`,
+    ]);
+  });
+});
+
+describe("pendingMigrations", () => {
+  test("returns the whole journal for a branch without records", () => {
+    const { journal } = fixture("0000_init", "0001_contacts");
+
+    expect(pendingMigrations([], journal)).toEqual(journal);
+  });
+
+  test("returns the entries newer than the latest record", () => {
+    const { journal, applied } = fixture("0000_init", "0001_a", "0002_b");
+
+    expect(pendingMigrations(applied(journal[0], journal[1]), journal)).toEqual(
+      [journal[2]],
+    );
+  });
+
+  test("skips an unapplied entry older than the latest record, like drizzle-kit", () => {
+    const { journal, applied } = fixture("0000_init", "0001_a", "0002_b");
+
+    expect(pendingMigrations(applied(journal[0], journal[2]), journal)).toEqual(
+      [],
+    );
+  });
+});
+
+describe("migrationConflicts", () => {
+  test("is empty when the records are a prefix of the journal", () => {
+    const { dir, journal, applied } = fixture("0000_init", "0001_a");
+
+    expect(migrationConflicts(applied(journal[0]), dir, journal)).toEqual([]);
+  });
+
+  test("reports records that aren't in the journal", () => {
+    const { dir, journal, applied } = fixture("0000_init");
+    const unknown = { hash: "abc", created_at: String(journal[0].when + 500) };
+
+    expect(
+      migrationConflicts([...applied(journal[0]), unknown], dir, journal),
+    ).toEqual([
+      `a migration from ${new Date(journal[0].when + 500).toISOString()} is applied but not in the journal`,
+    ]);
+  });
+
+  test("reports migrations whose SQL changed since they were applied", () => {
+    const { dir, journal, applied } = fixture("0000_init", "0001_a");
+    const records = applied(journal[0], journal[1]);
+    writeFileSync(join(dir, "0001_a.sql"), "-- edited\n");
+
+    expect(migrationConflicts(records, dir, journal)).toEqual([
+      "0001_a changed since it was applied",
+    ]);
+  });
+
+  test("reports entries older than the latest record that would be skipped", () => {
+    const { dir, journal, applied } = fixture("0000_init", "0001_a", "0002_b");
+
+    expect(
+      migrationConflicts(applied(journal[0], journal[2]), dir, journal),
+    ).toEqual([
+      "0001_a is older than the latest applied migration and would be skipped",
+    ]);
+  });
+});
+
+describe("findPendingMigrations", () => {
+  let fake: FakeNeonServer;
+  let previousSqlUrl: string | undefined;
+
+  beforeEach(() => {
+    fake = createFakeNeonServer();
+    previousSqlUrl = process.env.NEON_SQL_URL;
+    process.env.NEON_SQL_URL = fake.sqlUrl;
+  });
+
+  afterEach(() => {
+    fake.stop();
+    if (previousSqlUrl === undefined) {
+      delete process.env.NEON_SQL_URL;
+    } else {
+      process.env.NEON_SQL_URL = previousSqlUrl;
+    }
+  });
+
+  function developmentUrl() {
+    const development = [...fake.state.branches.values()].find(
+      (branch) => branch.name === "development",
+    )!;
+    const endpoint = [...fake.state.endpoints.values()].find(
+      (candidate) => candidate.branch_id === development.id,
+    )!;
+    return {
+      id: development.id,
+      url: `postgresql://neondb_owner:fake-password@${endpoint.host}/neondb`,
+    };
+  }
+
+  test("treats a branch without the migrations table as unmigrated", async () => {
+    const { journal } = fixture("0000_init");
+
+    expect(
+      await findPendingMigrations(developmentUrl().url, TABLE, journal),
+    ).toEqual(journal);
+  });
+
+  test("reads the branch's records", async () => {
+    const { journal, applied } = fixture("0000_init", "0001_a");
+    const { id, url } = developmentUrl();
+    fake.state.migrations.set(id, applied(journal[0]));
+
+    expect(await findPendingMigrations(url, TABLE, journal)).toEqual([
+      journal[1],
+    ]);
+  });
+});
@@ -0,0 +1,300 @@
+// Finds the Drizzle migrations a branch hasn't applied yet
+//
+// drizzle-kit records every migration it applies in __drizzle_migrations,
+// with the journal entry's `when` as created_at, and applies each journal
+// entry newer than the latest record. This follows the same rule so the
+// reported tags match what the project's migrate command runs.
+
+import { createHash } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import type { NeonClient } from "./client";
+import type { NeonFlowConfig } from "./config";
+import { branchSql } from "./connection";
+import { ConfigError, NeonFlowError } from "./errors";
+import { runProjectCommand } from "./shell";
+import type { NeonBranch } from "./types";
+
+export interface MigrationJournalEntry {
+  idx: number;
+  when: number;
+  tag: string;
+}
+
+// A row of the migrations table
+export interface AppliedMigration {
+  hash: string;
+  // bigint columns arrive as strings
+  created_at: string;
+}
+
+// Postgres error code for a missing table
+const UNDEFINED_TABLE = "42P01";
+
+export function migrationJournalPath(dir: string): string {
+  return join(dir, "meta", "_journal.json");
+}
+
+// null when the project has no migrations folder
+export function readMigrationJournal(
+  dir: string,
+): MigrationJournalEntry[] | null {
+  const path = migrationJournalPath(dir);
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  try {
+    const journal = JSON.parse(readFileSync(path, "utf8")) as {
+      entries?: MigrationJournalEntry[];
+    };
+    if (!Array.isArray(journal.entries)) {
+      throw new Error("it has no entries list");
+    }
+    return journal.entries;
+  } catch (error) {
+    throw new ConfigError(
+      `Could not read ${path}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+}
+
+function migrationFilePath(dir: string, entry: MigrationJournalEntry): string {
+  return join(dir, `${entry.tag}.sql`);
+}
+
+// What drizzle-kit records as the hash of a migration, null when its SQL
+// file is missing
+export function migrationHash(
+  dir: string,
+  entry: MigrationJournalEntry,
+): string | null {
+  const path = migrationFilePath(dir, entry);
+  return existsSync(path)
+    ? createHash("sha256").update(readFileSync(path, "utf8")).digest("hex")
+    : null;
+}
+
+// Problems that would make drizzle-kit skip or misorder migrations: entries
+// out of order, duplicate tags and missing SQL files. Empty when the
+// journal is fine.
+export function verifyMigrationJournal(
+  dir: string,
+  journal: MigrationJournalEntry[],
+): string[] {
+  const problems: string[] = [];
+  const tags = new Set<string>();
+  journal.forEach((entry, index) => {
+    if (entry.idx !== index) {
+      problems.push(`${entry.tag} has idx ${entry.idx}, expected ${index}`);
+    }
+    if (index > 0 && entry.when <= journal[index - 1].when) {
+      problems.push(
+        `${entry.tag} is not newer than ${journal[index - 1].tag}, drizzle-kit would skip it on branches that have the earlier one`,
+      );
+    }
+    if (tags.has(entry.tag)) {
+      problems.push(`${entry.tag} is listed more than once`);
+    }
+    tags.add(entry.tag);
+    if (!existsSync(migrationFilePath(dir, entry))) {
+      problems.push(`${migrationFilePath(dir, entry)} not found`);
+    }
+  });
+  return problems;
+}
+
+// "drizzle.__drizzle_migrations" -> "drizzle"."__drizzle_migrations"
+function quoteTable(table: string): string {
+  return table
+    .split(".")
+    .map((part) => `"${part}"`)
+    .join(".");
+}
+
+// A branch that never ran migrations has no table yet
+async function readAppliedMigrations(
+  databaseUrl: string,
+  table: string,
+): Promise<AppliedMigration[]> {
+  const sql = branchSql(databaseUrl);
+  try {
+    return (await sql.query(
+      `select hash, created_at from ${quoteTable(table)} order by created_at`,
+    )) as AppliedMigration[];
+  } catch (error) {
+    if ((error as { code?: string }).code === UNDEFINED_TABLE) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// The journal entries newer than the latest applied migration
+export function pendingMigrations(
+  applied: AppliedMigration[],
+  journal: MigrationJournalEntry[],
+): MigrationJournalEntry[] {
+  const latest = Math.max(
+    0,
+    ...applied.map((migration) => Number(migration.created_at)),
+  );
+  return journal.filter((entry) => entry.when > latest);
+}
+
+export async function findPendingMigrations(
+  databaseUrl: string,
+  table: string,
+  journal: MigrationJournalEntry[],
+): Promise<MigrationJournalEntry[]> {
+  return pendingMigrations(
+    await readAppliedMigrations(databaseUrl, table),
+    journal,
+  );
+}
+
+// Ways a branch's migration history disagrees with the journal, e.g. after
+// a feature's migrations were applied to it before they were merged:
+// records no journal entry matches, records whose SQL file changed since,
+// and entries older than the latest record that drizzle-kit would skip.
+// Empty when the journal's pending entries can be applied on top.
+export function migrationConflicts(
+  applied: AppliedMigration[],
+  dir: string,
+  journal: MigrationJournalEntry[],
+): string[] {
+  const byWhen = new Map(journal.map((entry) => [entry.when, entry]));
+  const conflicts: string[] = [];
+
+  for (const migration of applied) {
+    const entry = byWhen.get(Number(migration.created_at));
+    if (!entry) {
+      conflicts.push(
+        `a migration from ${new Date(Number(migration.created_at)).toISOString()} is applied but not in the journal`,
+      );
+      continue;
+    }
+    if (migrationHash(dir, entry) !== migration.hash) {
+      conflicts.push(`${entry.tag} changed since it was applied`);
+    }
+  }
+
+  const appliedWhens = new Set(
+    applied.map((migration) => Number(migration.created_at)),
+  );
+  const latest = Math.max(0, ...appliedWhens);
+  for (const entry of journal) {
+    if (entry.when < latest && !appliedWhens.has(entry.when)) {
+      conflicts.push(
+        `${entry.tag} is older than the latest applied migration and would be skipped`,
+      );
+    }
+  }
+  return conflicts;
+}
+
+export async function findMigrationConflicts(
+  databaseUrl: string,
+  config: NeonFlowConfig["migrations"],
+  journal: MigrationJournalEntry[],
+): Promise<string[]> {
+  return migrationConflicts(
+    await readAppliedMigrations(databaseUrl, config.table),
+    config.dir,
+    journal,
+  );
+}
+
+// Schema-only branches get the migrations table but none of its rows, so
+// without the parent's history every migration would look pending and run
+// against tables that already exist. Records the branch already has are
+// left out, so a reused branch can be caught up again. Returns the number
+// of records copied.
+export async function copyMigrationHistory(
+  fromDatabaseUrl: string,
+  toDatabaseUrl: string,
+  table: string,
+): Promise<number> {
+  const present = new Set(
+    (await readAppliedMigrations(toDatabaseUrl, table)).map(
+      (migration) => `${migration.hash}@${migration.created_at}`,
+    ),
+  );
+  const applied = (await readAppliedMigrations(fromDatabaseUrl, table)).filter(
+    (migration) => !present.has(`${migration.hash}@${migration.created_at}`),
+  );
+  if (applied.length === 0) {
+    return 0;
+  }
+
+  const sql = branchSql(toDatabaseUrl);
+  await sql.query(
+    `insert into ${quoteTable(table)} (hash, created_at)
+     select * from unnest($1::text[], $2::bigint[])`,
+    [
+      applied.map((migration) => migration.hash),
+      applied.map((migration) => migration.created_at),
+    ],
+  );
+  return applied.length;
+}
+
+// Applies the journal entries the new branch hasn't run yet with
+// migrations.command and returns their tags
+export async function migrateBranch(
+  neon: NeonClient,
+  config: NeonFlowConfig["migrations"] & { command: string },
+  journal: MigrationJournalEntry[],
+  databaseUrl: string,
+  // The parent of a schema-only branch, which starts without the parent's
+  // history. databaseUrl names the database and role to read it with.
+  schemaOnlyParent: NeonBranch | null,
+  // Where migrations.command runs, e.g. a feature's worktree. Defaults to
+  // the current directory.
+  cwd?: string,
+): Promise<string[]> {
+  if (schemaOnlyParent) {
+    const { pathname, username } = new URL(databaseUrl);
+    const { uri } = await neon.connectionUri({
+      branchId: schemaOnlyParent.id,
+      databaseName: decodeURIComponent(pathname.slice(1)),
+      roleName: decodeURIComponent(username),
+    });
+    const copied = await copyMigrationHistory(uri, databaseUrl, config.table);
+    console.log(
+      `✅ Copied ${copied} migration record(s) from ${schemaOnlyParent.name}`,
+    );
+  }
+
+  const pending = await findPendingMigrations(
+    databaseUrl,
+    config.table,
+    journal,
+  );
+  if (pending.length === 0) {
+    console.log("✅ No pending migrations");
+    return [];
+  }
+
+  console.log(`🧱 Applying ${pending.length} pending migration(s):`);
+  for (const entry of pending) {
+    console.log(`   • ${entry.tag}`);
+  }
+  await runProjectCommand(config.command, { DATABASE_URL: databaseUrl }, cwd);
+
+  // The command exiting cleanly doesn't prove it migrated this branch, e.g.
+  // when it reads a different DATABASE_URL
+  const remaining = await findPendingMigrations(
+    databaseUrl,
+    config.table,
+    journal,
+  );
+  if (remaining.length > 0) {
+    throw new NeonFlowError(
+      `'${config.command}' finished but these migrations are still pending: ${remaining.map((entry) => entry.tag).join(", ")}`,
+    );
+  }
+
+  console.log("✅ Migrations applied");
+  return pending.map((entry) => entry.tag);
+}
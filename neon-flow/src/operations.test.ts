@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createNeonClient, type NeonClient } from "./client";
+import { NeonOperationFailedError, NeonOperationTimeoutError } from "./errors";
+import { createFakeNeonServer, type FakeNeonServer } from "./fake-server";
+import {
+  defaultOperationTimeoutMs,
+  runningBranchOperations,
+  waitForOperations,
+} from "./operations";
+import { DEFAULT_PAGE_LIMIT } from "./pagination";
+import type { NeonOperation } from "./types";
+
+const quiet = () => {};
+
+describe("defaultOperationTimeoutMs", () => {
+  test("reads NEON_OPERATION_TIMEOUT_SECONDS", () => {
+    expect(
+      defaultOperationTimeoutMs({ NEON_OPERATION_TIMEOUT_SECONDS: "5" }),
+    ).toBe(5000);
+  });
+
+  test("falls back to 120 seconds for missing or invalid values", () => {
+    expect(defaultOperationTimeoutMs({})).toBe(120_000);
+    expect(
+      defaultOperationTimeoutMs({ NEON_OPERATION_TIMEOUT_SECONDS: "soon" }),
+    ).toBe(120_000);
+    expect(
+      defaultOperationTimeoutMs({ NEON_OPERATION_TIMEOUT_SECONDS: "-1" }),
+    ).toBe(120_000);
+  });
+});
+
+describe("waiting for operations", () => {
+  let fake: FakeNeonServer;
+  let neon: NeonClient;
+
+  function start(operationPolls: number) {
+    fake = createFakeNeonServer({ operationPolls });
+    neon = createNeonClient({
+      apiKey: fake.apiKey,
+      projectId: fake.projectId,
+      baseUrl: fake.baseUrl,
+    });
+  }
+
+  async function createBranch(name: string) {
+    const development = [...fake.state.branches.values()].find(
+      (branch) => branch.name === "development",
+    )!;
+    return neon.branches.create({
+      branch: { name, parent_id: development.id },
+      endpoints: [{ type: "read_write" }],
+    });
+  }
+
+  function addOperation(
+    operation: Partial<NeonOperation> & Pick<NeonOperation, "id" | "branch_id">,
+  ) {
+    fake.state.operations.set(operation.id, {
+      project_id: fake.projectId,
+      action: "apply_config",
+      status: "finished",
+      failures_count: 0,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      total_duration_ms: 0,
+      ...operation,
+      polls: 0,
+    });
+  }
+
+  afterEach(() => fake.stop());
+
+  describe("waitForOperations", () => {
+    beforeEach(() => start(3));
+
+    test("polls until every operation finished", async () => {
+      const { operations } = await createBranch("alice-search");
+
+      const finished = await waitForOperations(neon, operations, {
+        intervalMs: 1,
+        onProgress: quiet,
+      });
+
+      expect(finished.map((operation) => operation.status)).toEqual(
+        operations.map(() => "finished"),
+      );
+    });
+
+    test("throws when an operation fails", async () => {
+      const { operations } = await createBranch("alice-search");
+      fake.state.operations.get(operations[0].id)!.status = "failed";
+
+      const error = await waitForOperations(neon, operations, {
+        intervalMs: 1,
+        onProgress: quiet,
+      }).catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(NeonOperationFailedError);
+      expect((error as NeonOperationFailedError).operation.id).toBe(
+        operations[0].id,
+      );
+    });
+
+    test("times out after NEON_OPERATION_TIMEOUT_SECONDS", async () => {
+      fake.stop();
+      start(Number.MAX_SAFE_INTEGER);
+      const { operations } = await createBranch("alice-search");
+      const previous = process.env.NEON_OPERATION_TIMEOUT_SECONDS;
+      process.env.NEON_OPERATION_TIMEOUT_SECONDS = "1";
+
+      try {
+        const error = await waitForOperations(neon, operations, {
+          intervalMs: 100,
+          onProgress: quiet,
+        }).catch((error: unknown) => error);
+
+        expect(error).toBeInstanceOf(NeonOperationTimeoutError);
+        expect((error as NeonOperationTimeoutError).timeoutMs).toBe(1000);
+        expect((error as NeonOperationTimeoutError).pending).toHaveLength(
+          operations.length,
+        );
+      } finally {
+        if (previous === undefined) {
+          delete process.env.NEON_OPERATION_TIMEOUT_SECONDS;
+        } else {
+          process.env.NEON_OPERATION_TIMEOUT_SECONDS = previous;
+        }
+      }
+    });
+  });
+
+  describe("runningBranchOperations", () => {
+    beforeEach(() => start(1));
+
+    test("finds running operations past the first page and skips failed ones", async () => {
+      const { branch, operations } = await createBranch("alice-search");
+      await waitForOperations(neon, operations, {
+        intervalMs: 1,
+        onProgress: quiet,
+      });
+      for (let index = 0; index < DEFAULT_PAGE_LIMIT + 10; index++) {
+        addOperation({ id: `op-finished-${index}`, branch_id: branch.id });
+      }
+      addOperation({
+        id: "op-running",
+        branch_id: branch.id,
+        status: "running",
+      });
+      addOperation({ id: "op-failed", branch_id: branch.id, status: "failed" });
+      addOperation({
+        id: "op-other-branch",
+        branch_id: "br-other",
+        status: "running",
+      });
+
+      const running = await runningBranchOperations(neon, branch.id);
+
+      expect(running.map((operation) => operation.id)).toEqual(["op-running"]);
+    });
+  });
+});
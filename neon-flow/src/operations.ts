@@ -0,0 +1,137 @@
+// Waits for Neon operations (branch creation, compute start, snapshots, ...)
+// to finish before their results are used
+
+import type { NeonClient } from "./client";
+import { NeonOperationFailedError, NeonOperationTimeoutError } from "./errors";
+import type { NeonOperation } from "./types";
+
+const FINISHED_STATUSES = ["finished", "skipped", "cancelled"];
+const FAILED_STATUSES = ["failed", "error"];
+
+const DEFAULT_TIMEOUT_SECONDS = 120;
+const DEFAULT_INTERVAL_MS = 1000;
+
+export type OperationsProgressHandler = (
+  operations: NeonOperation[],
+  elapsedMs: number,
+) => void;
+
+export interface WaitForOperationsOptions {
+  // Defaults to NEON_OPERATION_TIMEOUT_SECONDS or 120 seconds
+  timeoutMs?: number;
+  intervalMs?: number;
+  onProgress?: OperationsProgressHandler;
+}
+
+function isFinished(operation: NeonOperation): boolean {
+  return FINISHED_STATUSES.includes(operation.status);
+}
+
+export function defaultOperationTimeoutMs(
+  env: NodeJS.ProcessEnv = process.env,
+): number {
+  const seconds = Number(env.NEON_OPERATION_TIMEOUT_SECONDS);
+  return (
+    (Number.isFinite(seconds) && seconds > 0
+      ? seconds
+      : DEFAULT_TIMEOUT_SECONDS) * 1000
+  );
+}
+
+// Prints a single progress line, redrawn in place when stdout is a terminal
+export function createOperationsProgressLogger(): OperationsProgressHandler {
+  let lastLine = "";
+
+  return (operations, elapsedMs) => {
+    const finished = operations.filter(isFinished).length;
+    const statuses = operations
+      .map((operation) =>
+        isFinished(operation)
+          ? `${operation.action} ✅`
+          : `${operation.action} ${operation.status}`,
+      )
+      .join(", ");
+    const line = `⏳ Waiting for Neon operations (${finished}/${operations.length}): ${statuses}`;
+    const done = finished === operations.length;
+
+    if (process.stdout.isTTY) {
+      process.stdout.write(
+        `\r${line} ${Math.round(elapsedMs / 1000)}s\x1b[K${done ? "\n" : ""}`,
+      );
+    } else if (line !== lastLine) {
+      console.log(line);
+    }
+    lastLine = line;
+  };
+}
+
+// Polls every pending operation until all of them reached a finished status.
+// Throws when one of them fails or the timeout is exceeded.
+export async function waitForOperations(
+  neon: NeonClient,
+  operations: NeonOperation[],
+  {
+    timeoutMs = defaultOperationTimeoutMs(),
+    intervalMs = DEFAULT_INTERVAL_MS,
+    onProgress = createOperationsProgressLogger(),
+  }: WaitForOperationsOptions = {},
+): Promise<NeonOperation[]> {
+  if (operations.length === 0) {
+    return operations;
+  }
+
+  const startedAt = Date.now();
+  let current = operations;
+
+  while (true) {
+    const failed = current.find((operation) =>
+      FAILED_STATUSES.includes(operation.status),
+    );
+    if (failed) {
+      throw new NeonOperationFailedError(failed);
+    }
+
+    const elapsedMs = Date.now() - startedAt;
+    onProgress(current, elapsedMs);
+
+    if (current.every(isFinished)) {
+      return current;
+    }
+
+    if (elapsedMs >= timeoutMs) {
+      throw new NeonOperationTimeoutError(
+        current.filter((operation) => !isFinished(operation)),
+        timeoutMs,
+      );
+    }
+
+    await Bun.sleep(intervalMs);
+
+    current = await Promise.all(
+      current.map(async (operation) =>
+        isFinished(operation)
+          ? operation
+          : (await neon.operations.get(operation.id)).operation,
+      ),
+    );
+  }
+}
+
+// Operations still running on a branch, e.g. ones started by a command that
+// was interrupted. Failed ones are history and not waited for.
+export async function runningBranchOperations(
+  neon: NeonClient,
+  branchId: string,
+): Promise<NeonOperation[]> {
+  const running: NeonOperation[] = [];
+  for await (const operation of neon.operations.iterate()) {
+    if (
+      operation.branch_id === branchId &&
+      !isFinished(operation) &&
+      !FAILED_STATUSES.includes(operation.status)
+    ) {
+      running.push(operation);
+    }
+  }
+  return running;
+}
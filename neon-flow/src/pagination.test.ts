@@ -0,0 +1,114 @@
+import { describe, expect, test } from "bun:test";
+import { createNeonClient } from "./client";
+import { createFakeNeonServer } from "./fake-server";
+import {
+  DEFAULT_PAGE_LIMIT,
+  paginate,
+  type PaginationParams,
+} from "./pagination";
+import type { NeonPagination } from "./types";
+
+interface Page {
+  items: string[];
+  pagination?: NeonPagination;
+}
+
+// Serves pages from a fixed list, recording the params of every request
+function pagesOf(pages: Page[]) {
+  const requests: PaginationParams[] = [];
+  const fetchPage = async (params: PaginationParams) => {
+    requests.push(params);
+    const index = params.cursor ? Number(params.cursor) : 0;
+    return pages[index];
+  };
+  return { fetchPage, requests };
+}
+
+async function collect(fetchPage: (params: PaginationParams) => Promise<Page>) {
+  const items: string[] = [];
+  for await (const page of paginate(fetchPage, (p) => p.items.length, 2)) {
+    items.push(...page.items);
+  }
+  return items;
+}
+
+describe("paginate", () => {
+  test("follows pagination.next until the last page", async () => {
+    const { fetchPage, requests } = pagesOf([
+      { items: ["a", "b"], pagination: { next: "1" } },
+      { items: ["c", "d"], pagination: { next: "2" } },
+      { items: ["e"], pagination: {} },
+    ]);
+
+    expect(await collect(fetchPage)).toEqual(["a", "b", "c", "d", "e"]);
+    expect(requests).toEqual([
+      { cursor: undefined, limit: 2 },
+      { cursor: "1", limit: 2 },
+      { cursor: "2", limit: 2 },
+    ]);
+  });
+
+  test("stops after a single page without pagination", async () => {
+    const { fetchPage, requests } = pagesOf([{ items: ["a", "b"] }]);
+
+    expect(await collect(fetchPage)).toEqual(["a", "b"]);
+    expect(requests).toHaveLength(1);
+  });
+
+  test("stops at an empty page even when it carries a cursor", async () => {
+    const { fetchPage, requests } = pagesOf([
+      { items: ["a", "b"], pagination: { next: "1" } },
+      { items: [], pagination: { next: "2" } },
+      { items: ["never"] },
+    ]);
+
+    expect(await collect(fetchPage)).toEqual(["a", "b"]);
+    expect(requests).toHaveLength(2);
+  });
+
+  test("stops when the API repeats a cursor", async () => {
+    const { fetchPage, requests } = pagesOf([
+      { items: ["a", "b"], pagination: { next: "1" } },
+      { items: ["c", "d"], pagination: { next: "1" } },
+    ]);
+
+    expect(await collect(fetchPage)).toEqual(["a", "b", "c", "d"]);
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe("client listings", () => {
+  test("branches.listAll walks every page of the fake API", async () => {
+    const fake = createFakeNeonServer();
+    const neon = createNeonClient({
+      apiKey: fake.apiKey,
+      projectId: fake.projectId,
+      baseUrl: fake.baseUrl,
+    });
+
+    try {
+      const { branches: initial } = await neon.branches.listAll();
+      const development = initial.find(
+        (branch) => branch.name === "development",
+      )!;
+      for (let index = 0; index < DEFAULT_PAGE_LIMIT; index++) {
+        await neon.branches.create({
+          branch: { name: `feature-${index}`, parent_id: development.id },
+          endpoints: [],
+        });
+      }
+
+      const firstPage = await neon.branches.list({ limit: DEFAULT_PAGE_LIMIT });
+      const { branches } = await neon.branches.listAll();
+
+      expect(firstPage.branches).toHaveLength(DEFAULT_PAGE_LIMIT);
+      expect(firstPage.pagination?.next).toBeDefined();
+      expect(branches).toHaveLength(initial.length + DEFAULT_PAGE_LIMIT);
+      expect(new Set(branches.map((branch) => branch.id)).size).toBe(
+        branches.length,
+      );
+    } finally {
+      fake.stop();
+    }
+  });
+});
@@ -0,0 +1,34 @@
+// Follows Neon's cursor pagination across all pages of a list endpoint
+
+import type { NeonPagination } from "./types";
+
+export const DEFAULT_PAGE_LIMIT = 100;
+
+export interface PaginationParams {
+  cursor?: string;
+  limit?: number;
+}
+
+// Yields every page, requesting the next one with the previous page's cursor.
+// Stops when the API returns no cursor, repeats a cursor or an empty page.
+export async function* paginate<Page extends { pagination?: NeonPagination }>(
+  fetchPage: (params: PaginationParams) => Promise<Page>,
+  itemCount: (page: Page) => number,
+  limit = DEFAULT_PAGE_LIMIT,
+): AsyncGenerator<Page> {
+  const seenCursors = new Set<string>();
+  let cursor: string | undefined;
+
+  while (true) {
+    const page = await fetchPage({ cursor, limit });
+    yield page;
+
+    const next = page.pagination?.next;
+    if (!next || seenCursors.has(next) || itemCount(page) === 0) {
+      return;
+    }
+
+    seenCursors.add(next);
+    cursor = next;
+  }
+}
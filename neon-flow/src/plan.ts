@@ -0,0 +1,251 @@
+// Runs the side effects of a command, or only prints them with --dry-run
+//
+// Reads (listing branches, git status, reading .env) always run so a dry
+// run plans against the real state. Neon API calls that change the
+// project, git commands that change the repository and .env writes go
+// through a Plan and are skipped when dry-running.
+
+import { redactDatabaseUrl } from "./connection";
+import {
+  applyEnvUpdates,
+  envFilePath,
+  readEnvFile,
+  updateEnvFile,
+  type EnvUpdates,
+} from "./env-file";
+import { git } from "./git";
+import { readJournal, recordDatabaseUrlChange, writeJournal } from "./journal";
+import { describeMaskingRules, maskBranch } from "./masking";
+import { runProjectCommand } from "./shell";
+import type { OptionSpec } from "./command";
+import type { NeonFlowConfig } from "./config";
+
+export const DRY_RUN_OPTION = {
+  type: "boolean",
+  short: "n",
+  description:
+    "Print the planned Neon API calls, git commands and .env changes without running them",
+} as const satisfies OptionSpec;
+
+export interface PlannedApiCall {
+  method: "POST" | "PATCH" | "DELETE";
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+}
+
+// The steps a dry run skipped, in order, as reported by --json
+export type PlannedStep =
+  | ({ type: "neon" } & PlannedApiCall)
+  | { type: "git"; args: string[] }
+  | {
+      type: "command";
+      command: string;
+      // The directory it runs in, when it isn't the current one
+      cwd?: string;
+    }
+  | {
+      type: "mask";
+      branch: string;
+      tables: NeonFlowConfig["masking"]["tables"];
+    }
+  | {
+      type: "env";
+      path: string;
+      set: Record<string, string>;
+      // Variables removed from the file, when there are any
+      unset?: string[];
+      // The file the new contents start from, when it isn't path itself
+      from?: string;
+    };
+
+export interface EnvFileOptions {
+  // Defaults to the .env of the current directory
+  path?: string;
+  // The file the new contents start from, e.g. to create the .env of a new
+  // worktree from the current one
+  from?: string;
+  // Neon branch the new DATABASE_URL points at, for the journal
+  branch?: string | null;
+  // Going back to an earlier connection: drops the journal entries from
+  // this index on instead of recording the change
+  rewindTo?: number;
+}
+
+export interface DryRunResult {
+  dryRun: true;
+  planned: PlannedStep[];
+}
+
+function formatApiCall(call: PlannedApiCall): string {
+  const query = Object.entries(call.query ?? {})
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join("&");
+  return `${call.method} ${call.path}${query ? `?${query}` : ""}`;
+}
+
+// Lines that differ between two versions of .env, with passwords redacted
+function envDiff(before: string, after: string): string[] {
+  const beforeLines = before.split("\n");
+  const afterLines = after.split("\n");
+  const diff: string[] = [];
+
+  for (const line of beforeLines) {
+    if (!afterLines.includes(line)) {
+      diff.push(`- ${redactDatabaseUrl(line)}`);
+    }
+  }
+  for (const line of afterLines) {
+    if (!beforeLines.includes(line)) {
+      diff.push(`+ ${redactDatabaseUrl(line)}`);
+    }
+  }
+
+  return diff;
+}
+
+export function createPlan(dryRun: boolean) {
+  const planned: PlannedStep[] = [];
+
+  if (dryRun) {
+    console.log("🔍 Dry run: nothing will be changed\n");
+  }
+
+  return {
+    dryRun,
+
+    // Resolves to undefined when dry-running
+    async neon<T>(
+      call: PlannedApiCall,
+      run: () => Promise<T>,
+    ): Promise<T | undefined> {
+      if (!dryRun) {
+        return run();
+      }
+
+      planned.push({ type: "neon", ...call });
+      console.log(`   🔸 Would call Neon API: ${formatApiCall(call)}`);
+      if (call.body !== undefined) {
+        for (const line of JSON.stringify(call.body, null, 2).split("\n")) {
+          console.log(`      ${line}`);
+        }
+      }
+      return undefined;
+    },
+
+    async git(...args: string[]): Promise<string | undefined> {
+      if (!dryRun) {
+        return git(...args);
+      }
+
+      planned.push({ type: "git", args });
+      console.log(`   🔸 Would run: git ${args.join(" ")}`);
+      return undefined;
+    },
+
+    // Project commands from neon-flow.config.ts, e.g. the seed command
+    async run(
+      command: string,
+      env: Record<string, string>,
+      cwd?: string,
+    ): Promise<void> {
+      if (!dryRun) {
+        return runProjectCommand(command, env, cwd);
+      }
+
+      planned.push({ type: "command", command, ...(cwd && { cwd }) });
+      console.log(`   🔸 Would run: ${command}${cwd ? ` in ${cwd}` : ""}`);
+    },
+
+    // Rewrites masking.tables on a branch, resolves to rows masked per table
+    async mask(
+      branchName: string,
+      databaseUrl: string,
+      masking: NeonFlowConfig["masking"],
+    ): Promise<Record<string, number> | undefined> {
+      if (!dryRun) {
+        return maskBranch(databaseUrl, masking);
+      }
+
+      planned.push({
+        type: "mask",
+        branch: branchName,
+        tables: masking.tables,
+      });
+      for (const [table, rules] of Object.entries(masking.tables)) {
+        console.log(
+          `   🔸 Would mask ${table} on ${branchName}: ${describeMaskingRules(rules)}`,
+        );
+      }
+      return undefined;
+    },
+
+    // Changes of DATABASE_URL are recorded in the journal next to .env,
+    // copies for a new worktree start without one
+    updateEnvFile(
+      updates: EnvUpdates,
+      {
+        path = envFilePath(),
+        from = path,
+        branch = null,
+        rewindTo,
+      }: EnvFileOptions = {},
+    ) {
+      if (!dryRun) {
+        if (rewindTo !== undefined) {
+          writeJournal(readJournal(path).slice(0, rewindTo), path);
+        } else if (from === path) {
+          recordDatabaseUrlChange(updates, branch, path);
+        }
+        updateEnvFile(updates, path, from);
+        return;
+      }
+
+      const before = readEnvFile(from);
+      const after = applyEnvUpdates(before, updates);
+      const entries = Object.entries(updates);
+      const unset = entries
+        .filter(([, value]) => value === null)
+        .map(([key]) => key);
+
+      planned.push({
+        type: "env",
+        path,
+        set: Object.fromEntries(
+          entries.flatMap(([key, value]) =>
+            value === null ? [] : [[key, redactDatabaseUrl(value)]],
+          ),
+        ),
+        ...(unset.length > 0 && { unset }),
+        ...(from !== path && { from }),
+      });
+
+      // A copy only lists what differs from the file it was copied from
+      const diff = envDiff(before, after);
+      console.log(
+        `   🔸 Would ${from === path ? "update" : `write a copy of ${from} to`} ${path}${diff.length ? ":" : " (no changes)"}`,
+      );
+      for (const line of diff) {
+        console.log(`      ${line}`);
+      }
+    },
+
+    // Progress messages that claim a change happened are skipped in dry runs
+    done(message: string) {
+      if (!dryRun) {
+        console.log(message);
+      }
+    },
+
+    // Ends a dry run, commands return this instead of their own result
+    finish(): DryRunResult {
+      console.log(
+        "\n🔍 Dry run complete. Run again without --dry-run to apply these changes.",
+      );
+      return { dryRun: true, planned };
+    },
+  };
+}
+
+export type Plan = ReturnType<typeof createPlan>;
@@ -0,0 +1,22 @@
+// Yes/no questions for people at a terminal
+
+import { createInterface } from "node:readline/promises";
+
+// Answers no without asking when stdin isn't a terminal, e.g. in CI
+export async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    return false;
+  }
+
+  // stderr keeps the question out of --json output
+  const readline = createInterface({
+    input: process.stdin,
+    output: process.stderr,
+  });
+  try {
+    const answer = await readline.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    readline.close();
+  }
+}
@@ -0,0 +1,30 @@
+// Seeded pseudo-random numbers for generated data: the same seed always
+// gives the same numbers, unlike Math.random(). Used for seed profiles and
+// masked values. Not for anything secret.
+
+// mulberry32, a small 32-bit generator that is plenty for fake data
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+
+  // In [0, 1)
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    // In [min, max], both whole numbers
+    int: (min: number, max: number) =>
+      min + Math.floor(next() * (max - min + 1)),
+    // An item of an array, or a character of a string
+    pick: <T>(items: ArrayLike<T>): T =>
+      items[Math.floor(next() * items.length)],
+    chance: (probability: number) => next() < probability,
+  };
+}
+
+export type Random = ReturnType<typeof createRandom>;
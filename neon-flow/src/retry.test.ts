@@ -0,0 +1,231 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createNeonClient } from "./client";
+import {
+  NeonApiRequestError,
+  NeonLockedError,
+  NeonNotFoundError,
+  NeonRateLimitError,
+  parseRetryAfter,
+} from "./errors";
+import {
+  backoffDelay,
+  isRetryableError,
+  withRetry,
+  type RetryAttempt,
+  type RetryOptions,
+} from "./retry";
+
+function apiError(status: number, message = "failed", retryAfterMs?: number) {
+  const args = [
+    "GET",
+    "/projects/p",
+    status,
+    { message },
+    retryAfterMs,
+  ] as const;
+  switch (status) {
+    case 404:
+      return new NeonNotFoundError(...args);
+    case 423:
+      return new NeonLockedError(...args);
+    case 429:
+      return new NeonRateLimitError(...args);
+    default:
+      return new NeonApiRequestError(...args);
+  }
+}
+
+// Fails with the given errors in order, then succeeds
+function failing(...errors: unknown[]) {
+  const calls = { count: 0 };
+  const fn = async () => {
+    const error = errors[calls.count++];
+    if (error) {
+      throw error;
+    }
+    return "ok";
+  };
+  return { fn, calls };
+}
+
+function options(overrides: Partial<RetryOptions> = {}) {
+  const attempts: RetryAttempt[] = [];
+  return {
+    attempts,
+    options: {
+      retries: 3,
+      minDelayMs: 1,
+      maxDelayMs: 8,
+      onRetry: (attempt: RetryAttempt) => attempts.push(attempt),
+      ...overrides,
+    },
+  };
+}
+
+describe("isRetryableError", () => {
+  test("retries transient failures of idempotent requests", () => {
+    expect(isRetryableError(apiError(500))).toBe(true);
+    expect(isRetryableError(apiError(503))).toBe(true);
+    expect(isRetryableError(apiError(429))).toBe(true);
+    expect(isRetryableError(apiError(423))).toBe(true);
+    expect(isRetryableError(new TypeError("fetch failed"))).toBe(true);
+  });
+
+  test("doesn't retry client errors", () => {
+    expect(isRetryableError(apiError(400))).toBe(false);
+    expect(isRetryableError(apiError(404))).toBe(false);
+    expect(isRetryableError(apiError(409, "branch already exists"))).toBe(
+      false,
+    );
+    expect(isRetryableError(new Error("bug"))).toBe(false);
+  });
+
+  test("retries POSTs only when the request was turned away", () => {
+    expect(isRetryableError(apiError(429), false)).toBe(true);
+    expect(isRetryableError(apiError(423), false)).toBe(true);
+    expect(
+      isRetryableError(
+        apiError(409, "project already has running operations"),
+        false,
+      ),
+    ).toBe(true);
+    expect(isRetryableError(apiError(500), false)).toBe(false);
+    expect(isRetryableError(apiError(502), false)).toBe(false);
+    expect(isRetryableError(new TypeError("fetch failed"), false)).toBe(false);
+  });
+});
+
+describe("backoffDelay", () => {
+  test("grows exponentially between minDelayMs and the cap", () => {
+    const delays = { minDelayMs: 100, maxDelayMs: 1000 };
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const delay = backoffDelay(attempt, delays);
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThanOrEqual(Math.min(1000, 100 * 2 ** attempt));
+    }
+  });
+});
+
+describe("withRetry", () => {
+  test("retries until the call succeeds", async () => {
+    const { fn, calls } = failing(apiError(503), apiError(429));
+    const { options: retry, attempts } = options();
+
+    expect(await withRetry(fn, retry)).toBe("ok");
+    expect(calls.count).toBe(3);
+    expect(attempts.map((attempt) => attempt.attempt)).toEqual([1, 2]);
+  });
+
+  test("gives up after the configured retries", async () => {
+    const error = apiError(503);
+    const { fn, calls } = failing(error, error, error, error, error);
+    const { options: retry } = options({ retries: 2 });
+
+    await expect(withRetry(fn, retry)).rejects.toBe(error);
+    expect(calls.count).toBe(3);
+  });
+
+  test("waits for Retry-After, capped at maxDelayMs", async () => {
+    const { fn } = failing(
+      apiError(429, "slow down", 5),
+      apiError(429, "slow down", 60_000),
+    );
+    const { options: retry, attempts } = options();
+
+    await withRetry(fn, retry);
+
+    expect(attempts.map((attempt) => attempt.delayMs)).toEqual([5, 8]);
+  });
+
+  test("sends a failed POST only once on a 5xx", async () => {
+    const { fn, calls } = failing(apiError(500));
+    const { options: retry, attempts } = options();
+
+    await expect(withRetry(fn, retry, false)).rejects.toBeInstanceOf(
+      NeonApiRequestError,
+    );
+    expect(calls.count).toBe(1);
+    expect(attempts).toHaveLength(0);
+  });
+
+  test("retries a POST that hit a rate limit or a project lock", async () => {
+    const { fn, calls } = failing(apiError(429), apiError(423));
+    const { options: retry } = options();
+
+    expect(await withRetry(fn, retry, false)).toBe("ok");
+    expect(calls.count).toBe(3);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  test("reads delays in seconds and HTTP dates", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(parseRetryAfter("3", now)).toBe(3000);
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:10 GMT", now)).toBe(10_000);
+    expect(parseRetryAfter("Tue, 31 Dec 2024 23:59:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+  });
+});
+
+describe("client requests", () => {
+  let server: ReturnType<typeof Bun.serve> | undefined;
+
+  afterEach(() => server?.stop(true));
+
+  // Answers every request with the next status, 200 once they ran out
+  function serve(...statuses: number[]) {
+    const requests: string[] = [];
+    server = Bun.serve({
+      port: 0,
+      fetch: (request) => {
+        requests.push(request.method);
+        const status = statuses.shift() ?? 200;
+        return status === 200
+          ? Response.json({ branches: [], annotations: {} })
+          : Response.json(
+              { message: `status ${status}` },
+              { status, headers: { "Retry-After": "0" } },
+            );
+      },
+    });
+    const neon = createNeonClient({
+      apiKey: "key",
+      projectId: "project",
+      baseUrl: `http://localhost:${server.port}`,
+      retry: { minDelayMs: 1, maxDelayMs: 5, onRetry: () => {} },
+    });
+    return { neon, requests };
+  }
+
+  test("retries a GET on a 5xx", async () => {
+    const { neon, requests } = serve(502, 503);
+
+    await neon.branches.list();
+
+    expect(requests).toEqual(["GET", "GET", "GET"]);
+  });
+
+  test("doesn't resend a POST after a 5xx", async () => {
+    const { neon, requests } = serve(500);
+
+    await expect(
+      neon.branches.create({
+        branch: { name: "alice-search", parent_id: "br-development" },
+        endpoints: [],
+      }),
+    ).rejects.toBeInstanceOf(NeonApiRequestError);
+    expect(requests).toEqual(["POST"]);
+  });
+
+  test("resends a POST after a 429 or 423", async () => {
+    const { neon, requests } = serve(429, 423);
+
+    await neon.branches.create({
+      branch: { name: "alice-search", parent_id: "br-development" },
+      endpoints: [],
+    });
+
+    expect(requests).toEqual(["POST", "POST", "POST"]);
+  });
+});
@@ -0,0 +1,101 @@
+// Retries Neon API calls that failed for transient reasons:
+// network errors, 5xx responses, rate limits and project locks
+//
+// A POST may have gone through when its response was lost or a 5xx came
+// back, and sending it again would create a second branch or snapshot. POSTs
+// are only retried on errors that mean the request was turned away.
+
+import {
+  NeonApiRequestError,
+  NeonRateLimitError,
+  isOperationInProgressError,
+} from "./errors";
+
+export interface RetryAttempt {
+  attempt: number;
+  retries: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface RetryOptions {
+  retries: number;
+  minDelayMs: number;
+  maxDelayMs: number;
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 5,
+  minDelayMs: 500,
+  maxDelayMs: 30_000,
+  onRetry: logRetry,
+};
+
+// idempotent is false for requests that must not run twice, such as POSTs
+export function isRetryableError(error: unknown, idempotent = true): boolean {
+  if (error instanceof NeonApiRequestError) {
+    return (
+      (idempotent && error.status >= 500) ||
+      error instanceof NeonRateLimitError ||
+      isOperationInProgressError(error)
+    );
+  }
+  // fetch rejects with a TypeError when the connection itself fails
+  return idempotent && error instanceof TypeError;
+}
+
+// Exponential backoff with full jitter, capped at maxDelayMs
+export function backoffDelay(
+  attempt: number,
+  { minDelayMs, maxDelayMs }: Pick<RetryOptions, "minDelayMs" | "maxDelayMs">,
+): number {
+  const ceiling = Math.min(maxDelayMs, minDelayMs * 2 ** attempt);
+  return minDelayMs + Math.random() * (ceiling - minDelayMs);
+}
+
+function logRetry({ attempt, retries, delayMs, error }: RetryAttempt): void {
+  const reason =
+    error instanceof NeonApiRequestError
+      ? isOperationInProgressError(error)
+        ? "project is busy with another operation"
+        : `${error.status} ${error.body.message}`
+      : error instanceof Error
+        ? error.message
+        : String(error);
+
+  console.warn(
+    `⚠️  Neon API request failed (${reason}), retrying in ${(delayMs / 1000).toFixed(1)}s (${attempt}/${retries})`,
+  );
+}
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  idempotent = true,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.retries || !isRetryableError(error, idempotent)) {
+        throw error;
+      }
+
+      const retryAfterMs =
+        error instanceof NeonApiRequestError ? error.retryAfterMs : undefined;
+      const delayMs = Math.min(
+        retryAfterMs ?? backoffDelay(attempt, options),
+        options.maxDelayMs,
+      );
+
+      options.onRetry?.({
+        attempt: attempt + 1,
+        retries: options.retries,
+        delayMs,
+        error,
+      });
+      await Bun.sleep(delayMs);
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test";
+import { SEED_PROFILES, generateContacts } from "./seed-contacts";
+
+describe("generateContacts", () => {
+  test("generates the same contacts for the same seed", () => {
+    expect(generateContacts("demo", 7)).toEqual(generateContacts("demo", 7));
+    expect(generateContacts("demo", 7)).not.toEqual(
+      generateContacts("demo", 8),
+    );
+  });
+
+  test("generates as many contacts as the profile asks for", () => {
+    expect(generateContacts("empty")).toEqual([]);
+    expect(generateContacts("demo")).toHaveLength(SEED_PROFILES.demo.contacts);
+  });
+
+  test("keeps emails unique and on reserved domains", () => {
+    const contacts = generateContacts("10k");
+    const emails = new Set(contacts.map((contact) => contact.email));
+
+    expect(emails.size).toBe(contacts.length);
+    for (const { email, tel } of contacts) {
+      expect(email).toMatch(/@example\.(com|org|net)$/);
+      if (tel) {
+        expect(tel).toMatch(/^\+1 \d{3}-555-01\d{2}$/);
+      }
+    }
+  });
+});
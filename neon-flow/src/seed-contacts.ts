@@ -0,0 +1,179 @@
+// Generated contacts for the example apps' db:seed scripts, which share
+// the contacts table. The apps insert the columns their schema has.
+
+import { createRandom, type Random } from "./random";
+
+export interface SeedContact {
+  name: string;
+  email: string;
+  role: string | null;
+  company: string | null;
+  tel: string | null;
+}
+
+const FIRST_NAMES = [
+  "Ada",
+  "Alan",
+  "Amara",
+  "Ben",
+  "Carla",
+  "Chen",
+  "Dana",
+  "Diego",
+  "Elena",
+  "Farah",
+  "Grace",
+  "Hana",
+  "Ivan",
+  "Jonas",
+  "Kofi",
+  "Lea",
+  "Malik",
+  "Mei",
+  "Nina",
+  "Omar",
+  "Priya",
+  "Quinn",
+  "Rosa",
+  "Sam",
+  "Tariq",
+  "Uma",
+  "Victor",
+  "Wen",
+  "Yara",
+  "Zoe",
+] as const;
+
+const LAST_NAMES = [
+  "Adams",
+  "Bauer",
+  "Costa",
+  "Dubois",
+  "Eriksen",
+  "Fischer",
+  "Garcia",
+  "Haddad",
+  "Ito",
+  "Jensen",
+  "Kim",
+  "Lopez",
+  "Moreau",
+  "Nakamura",
+  "Okafor",
+  "Petrov",
+  "Quispe",
+  "Rossi",
+  "Schmidt",
+  "Tanaka",
+  "Usman",
+  "Varga",
+  "Wong",
+  "Yilmaz",
+  "Zhang",
+] as const;
+
+const ROLES = [
+  "Software Engineer",
+  "Product Manager",
+  "Designer",
+  "Data Analyst",
+  "Engineering Manager",
+  "Sales Lead",
+  "Customer Success",
+  "CTO",
+  "Founder",
+  "Marketing Manager",
+] as const;
+
+const COMPANIES = [
+  "Acme Corp",
+  "Globex",
+  "Initech",
+  "Umbrella Labs",
+  "Stark Industries",
+  "Wayne Enterprises",
+  "Hooli",
+  "Pied Piper",
+  "Soylent",
+  "Vandelay Industries",
+] as const;
+
+export function generateName(random: Random): string {
+  return `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`;
+}
+
+// example.com and friends are reserved (RFC 2606), mail to them goes nowhere.
+// The index keeps emails unique when names repeat.
+export function generateEmail(
+  random: Random,
+  name: string,
+  index: number,
+): string {
+  const local = name.toLowerCase().replace(/[^a-z]+/g, ".");
+  const domain = random.pick(["example.com", "example.org", "example.net"]);
+  return `${local}.${index}@${domain}`;
+}
+
+export function generateRole(random: Random): string {
+  return random.pick(ROLES);
+}
+
+export function generateCompany(random: Random): string {
+  return random.pick(COMPANIES);
+}
+
+// 555-01xx numbers are reserved for fiction in the North American plan,
+// the rest of the number only varies the area code
+export function generateTel(random: Random): string {
+  return `+1 ${random.int(201, 989)}-555-01${String(random.int(0, 99)).padStart(2, "0")}`;
+}
+
+// Optional columns are left empty now and then, like real contacts
+export function generateContact(random: Random, index: number): SeedContact {
+  const name = generateName(random);
+  return {
+    name,
+    email: generateEmail(random, name, index),
+    role: random.chance(0.8) ? generateRole(random) : null,
+    company: random.chance(0.8) ? generateCompany(random) : null,
+    tel: random.chance(0.6) ? generateTel(random) : null,
+  };
+}
+
+export interface SeedProfile {
+  description: string;
+  contacts: number;
+}
+
+export const SEED_PROFILES = {
+  empty: {
+    description: "No contacts, to work on empty states",
+    contacts: 0,
+  },
+  demo: {
+    description: "A page of realistic contacts for local development",
+    contacts: 25,
+  },
+  "10k": {
+    description: "10,000 contacts, to check lists and queries at volume",
+    contacts: 10_000,
+  },
+} satisfies Record<string, SeedProfile>;
+
+export type SeedProfileName = keyof typeof SEED_PROFILES;
+
+export const DEFAULT_SEED = 42;
+
+export function isSeedProfileName(name: string): name is SeedProfileName {
+  return Object.hasOwn(SEED_PROFILES, name);
+}
+
+export function generateContacts(
+  profile: SeedProfileName,
+  seed = DEFAULT_SEED,
+): SeedContact[] {
+  const random = createRandom(seed);
+  return Array.from({ length: SEED_PROFILES[profile].contacts }, (_, index) =>
+    generateContact(random, index + 1),
+  );
+}
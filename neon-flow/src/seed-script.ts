@@ -0,0 +1,82 @@
+// The example apps' db:seed script: replaces the contacts on the branch
+// DATABASE_URL points at with a seed profile. Each app passes the function
+// that writes the contacts with its own schema.
+//
+// bun run db:seed [profile] [--seed <number>]
+
+import { parseArgs } from "util";
+import {
+  DEFAULT_SEED,
+  SEED_PROFILES,
+  isSeedProfileName,
+  type SeedProfileName,
+} from "./seed-contacts";
+
+// Returns the number of contacts written
+export type SeedContacts = (
+  profile: SeedProfileName,
+  seed: number,
+) => Promise<number>;
+
+// Pooled and direct hosts of one endpoint only differ by "-pooler"
+function sameEndpoint(host: string, otherHost: string): boolean {
+  return host.replace("-pooler", "") === otherHost.replace("-pooler", "");
+}
+
+function printProfiles(): void {
+  console.error("   Available profiles:");
+  for (const [name, profile] of Object.entries(SEED_PROFILES)) {
+    console.error(`   - ${name.padEnd(6)} ${profile.description}`);
+  }
+}
+
+async function main(seedContacts: SeedContacts): Promise<void> {
+  const { positionals, values } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      seed: { type: "string" },
+    },
+  });
+
+  const profile = positionals[0] ?? "demo";
+  if (!isSeedProfileName(profile)) {
+    console.error(`❌ Unknown seed profile: ${profile}`);
+    printProfiles();
+    process.exit(2);
+  }
+
+  const seed = values.seed === undefined ? DEFAULT_SEED : Number(values.seed);
+  if (!Number.isSafeInteger(seed)) {
+    console.error(`❌ --seed must be a whole number, got '${values.seed}'`);
+    process.exit(2);
+  }
+
+  if (!process.env.DATABASE_URL) {
+    console.error("❌ DATABASE_URL environment variable is required");
+    process.exit(3);
+  }
+
+  // Seeding deletes every contact first
+  const host = new URL(process.env.DATABASE_URL).hostname;
+  const productionUrl = process.env.PRODUCTION_DATABASE_URL;
+  if (productionUrl && sameEndpoint(new URL(productionUrl).hostname, host)) {
+    console.error("❌ DATABASE_URL points at production, refusing to seed");
+    process.exit(6);
+  }
+
+  console.log(
+    `🌱 Seeding contacts with the '${profile}' profile (seed ${seed})`,
+  );
+  console.log(`   Database: ${host}`);
+
+  const count = await seedContacts(profile, seed);
+  console.log(`✅ Replaced all contacts with ${count} seeded contact(s)`);
+}
+
+export function runSeedScript(seedContacts: SeedContacts): void {
+  main(seedContacts).catch((error) => {
+    console.error("❌ Seeding failed:", error);
+    process.exit(1);
+  });
+}
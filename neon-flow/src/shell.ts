@@ -0,0 +1,30 @@
+// Runs project commands from neon-flow.config.ts, such as the seed script
+
+import { NeonFlowError } from "./errors";
+
+// Runs through sh so commands work exactly as written in the config. Their
+// output goes to stderr to keep stdout free for --json.
+export async function runProjectCommand(
+  command: string,
+  env: Record<string, string>,
+  // Defaults to the current directory
+  cwd?: string,
+): Promise<void> {
+  const child = Bun.spawn(["sh", "-c", command], {
+    cwd,
+    env: { ...process.env, ...env },
+    stdin: "inherit",
+    stdout: 2,
+    stderr: "inherit",
+  });
+
+  const exitCode = await child.exited;
+  if (exitCode !== 0) {
+    throw new NeonFlowError(`'${command}' failed with exit code ${exitCode}`);
+  }
+}
+
+// Quotes an argument for sh, e.g. to append CLI arguments to a command
+export function shellQuote(arg: string): string {
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,254 @@
+// Throwaway project for the command tests: a git repository with an
+// origin, a .env and a fake Neon API. Commands run in a child process
+// like they do from a project's package.json scripts.
+
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import type { CommandOutput } from "./command";
+import { findEndpointForDatabaseUrl } from "./connection";
+import { getEnvValue, readEnvFile } from "./env-file";
+import { createFakeNeonServer, type FakeNeonServer } from "./fake-server";
+import { readJournal, type JournalEntry } from "./journal";
+import {
+  migrationJournalPath,
+  type AppliedMigration,
+  type MigrationJournalEntry,
+} from "./migrations";
+import { shellQuote } from "./shell";
+import type { NeonBranch } from "./types";
+
+const CLI_PATH = join(import.meta.dir, "cli.ts");
+const FAKE_MIGRATE_PATH = join(import.meta.dir, "fake-migrate.ts");
+
+export interface TestProjectOptions {
+  // Contents of .env, DEVELOPMENT_DATABASE_URL and PRODUCTION_DATABASE_URL
+  // point at the fake branches when left out
+  env?: string;
+}
+
+export interface CommandRun<Result> {
+  exitCode: number;
+  output: CommandOutput<Result>;
+  // Progress messages, --json moves them to stderr
+  log: string;
+}
+
+export interface TestProject {
+  dir: string;
+  fake: FakeNeonServer;
+  // Runs neon-flow with --json and parses its output
+  run: <Result = Record<string, unknown>>(
+    ...args: string[]
+  ) => Promise<CommandRun<Result>>;
+  // Like run, for commands that must succeed: failures throw with the log
+  result: <Result>(...args: string[]) => Promise<Result>;
+  git: (...args: string[]) => Promise<string>;
+  envValue: (key: string) => string | undefined;
+  journal: () => JournalEntry[];
+  branchNamed: (name: string) => NeonBranch | undefined;
+  // The branch whose endpoint serves the URL, e.g. .env's DATABASE_URL
+  branchOfDatabaseUrl: (url: string | undefined) => NeonBranch | undefined;
+  // The fake's connection string of a branch's read-write endpoint
+  databaseUrl: (branch: NeonBranch) => string;
+  // migrations.command that records pending migrations in the fake
+  migrateCommand: string;
+  // Writes a file relative to the project, creating its directories
+  writeFile: (path: string, contents: string) => void;
+  // Writes neon-flow.config.ts
+  writeConfig: (config: Record<string, unknown>) => void;
+  // Appends a migration to migrations/meta/_journal.json with its SQL file
+  addMigration: (tag: string, sql?: string) => MigrationJournalEntry;
+  // Rows of the fake migrations table of a branch, undefined without one
+  migrations: (branchName: string) => AppliedMigration[] | undefined;
+  dispose: () => void;
+}
+
+export async function createTestProject({
+  env,
+}: TestProjectOptions = {}): Promise<TestProject> {
+  const root = mkdtempSync(join(tmpdir(), "neon-flow-test-"));
+  const dir = join(root, "project");
+  const fake = createFakeNeonServer({ operationPolls: 1 });
+
+  const processEnv: Record<string, string> = {
+    PATH: process.env.PATH ?? "",
+    HOME: root,
+    GIT_CONFIG_NOSYSTEM: "1",
+    GIT_AUTHOR_NAME: "Test",
+    GIT_AUTHOR_EMAIL: "test@example.com",
+    GIT_COMMITTER_NAME: "Test",
+    GIT_COMMITTER_EMAIL: "test@example.com",
+    NEON_API_BASE_URL: fake.baseUrl,
+    NEON_API_KEY: fake.apiKey,
+    NEON_PROJECT_ID: fake.projectId,
+    NEON_SQL_URL: fake.sqlUrl,
+    NEON_FLOW_MASKING_SALT: "test-salt",
+  };
+
+  async function exec(cwd: string, command: string[]) {
+    const child = Bun.spawn(command, {
+      cwd,
+      env: processEnv,
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    const [stdout, stderr, exitCode] = await Promise.all([
+      new Response(child.stdout).text(),
+      new Response(child.stderr).text(),
+      child.exited,
+    ]);
+    return { stdout, stderr, exitCode };
+  }
+
+  async function git(...args: string[]): Promise<string> {
+    const { stdout, stderr, exitCode } = await exec(dir, ["git", ...args]);
+    if (exitCode !== 0) {
+      throw new Error(`git ${args.join(" ")} failed: ${stderr}`);
+    }
+    return stdout.trim();
+  }
+
+  const branchNamed = (name: string) =>
+    [...fake.state.branches.values()].find((branch) => branch.name === name);
+
+  function databaseUrl(branch: NeonBranch): string {
+    const endpoint = [...fake.state.endpoints.values()].find(
+      (candidate) =>
+        candidate.branch_id === branch.id && candidate.type === "read_write",
+    );
+    if (!endpoint) {
+      throw new Error(`${branch.name} has no read-write endpoint`);
+    }
+    return `postgresql://neondb_owner:fake-password@${endpoint.host}/neondb?sslmode=require`;
+  }
+
+  await exec(root, ["git", "init", "--quiet", "--bare", "origin.git"]);
+  await exec(root, ["git", "init", "--quiet", "--initial-branch=main", dir]);
+  await git("commit", "--quiet", "--allow-empty", "-m", "Initial commit");
+  await git("remote", "add", "origin", join(root, "origin.git"));
+  await git("push", "--quiet", "--set-upstream", "origin", "main");
+
+  writeFileSync(join(dir, ".gitignore"), ".env*\n");
+  await git("add", ".gitignore");
+  await git("commit", "--quiet", "-m", "Ignore .env");
+  await git("push", "--quiet");
+
+  writeFileSync(
+    join(dir, ".env"),
+    env ??
+      [
+        `DEVELOPMENT_DATABASE_URL="${databaseUrl(branchNamed("development")!)}"`,
+        `PRODUCTION_DATABASE_URL="${databaseUrl(branchNamed("production")!)}"`,
+        "",
+      ].join("\n"),
+  );
+
+  function writeFile(path: string, contents: string) {
+    mkdirSync(dirname(join(dir, path)), { recursive: true });
+    writeFileSync(join(dir, path), contents);
+  }
+
+  function addMigration(tag: string, sql = `-- ${tag}\n`) {
+    const journalPath = migrationJournalPath(join(dir, "migrations"));
+    const entries: MigrationJournalEntry[] = existsSync(journalPath)
+      ? JSON.parse(readFileSync(journalPath, "utf8")).entries
+      : [];
+    const entry = {
+      idx: entries.length,
+      // drizzle-kit's timestamps, a second apart
+      when: 1_700_000_000_000 + entries.length * 1000,
+      tag,
+    };
+    writeFile(`migrations/${tag}.sql`, sql);
+    writeFile(
+      "migrations/meta/_journal.json",
+      JSON.stringify({ entries: [...entries, entry] }, null, 2),
+    );
+    return entry;
+  }
+
+  async function run<Result>(...args: string[]): Promise<CommandRun<Result>> {
+    const { stdout, stderr, exitCode } = await exec(dir, [
+      process.execPath,
+      CLI_PATH,
+      ...args,
+      "--json",
+    ]);
+    // A crash can leave stdout empty, the log says why
+    let output: CommandOutput<Result>;
+    try {
+      output = JSON.parse(stdout);
+    } catch {
+      throw new Error(
+        `neon-flow ${args.join(" ")} exited with ${exitCode} without printing JSON\n${stderr}`,
+      );
+    }
+    return { exitCode, output, log: stderr };
+  }
+
+  return {
+    dir,
+    fake,
+    run,
+    result: async <Result>(...args: string[]) => {
+      const { output, log } = await run<Result>(...args);
+      if (!output.ok) {
+        throw new Error(
+          `${output.command} failed with ${output.error.name}: ${output.error.message}\n${log}`,
+        );
+      }
+      return output.result;
+    },
+    git,
+    envValue: (key) => getEnvValue(readEnvFile(join(dir, ".env")), key),
+    journal: () => readJournal(join(dir, ".env")),
+    branchNamed,
+    branchOfDatabaseUrl: (url) => {
+      const endpoint =
+        url &&
+        findEndpointForDatabaseUrl([...fake.state.endpoints.values()], url);
+      return endpoint ? fake.state.branches.get(endpoint.branch_id) : undefined;
+    },
+    databaseUrl,
+    migrateCommand: `${shellQuote(process.execPath)} ${shellQuote(FAKE_MIGRATE_PATH)}`,
+    writeFile,
+    writeConfig: (config) =>
+      writeFile(
+        "neon-flow.config.ts",
+        `export default ${JSON.stringify(config, null, 2)};\n`,
+      ),
+    addMigration,
+    migrations: (branchName) => {
+      const branch = branchNamed(branchName);
+      return branch && fake.state.migrations.get(branch.id);
+    },
+    dispose: () => {
+      fake.stop();
+      rmSync(root, { recursive: true, force: true });
+    },
+  };
+}
+
+// Wraps a test body in a fresh project that is removed afterwards:
+// test("...", withProject(async (project) => { ... }))
+export function withProject(
+  body: (project: TestProject) => Promise<void>,
+  options?: TestProjectOptions,
+): () => Promise<void> {
+  return async () => {
+    const project = await createTestProject(options);
+    try {
+      await body(project);
+    } finally {
+      project.dispose();
+    }
+  };
+}
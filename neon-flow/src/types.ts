@@ -27,6 +27,8 @@ export interface NeonBranch {
     name: string;
     image: string;
   };
+  // "parent-data" for copy-on-write children, "schema-only" for branches
+  // created without the parent's data
   init_source: string;
   expire_at?: string;
 }
@@ -42,7 +44,7 @@ export interface NeonEndpoint {
   type: "read_write" | "read_only";
   current_state: string;
   pending_state?: string;
-  settings: Record<string, any>;
+  settings: Record<string, unknown>;
   pooler_enabled: boolean;
   pooler_mode: string;
   disabled: boolean;
@@ -53,6 +55,8 @@ export interface NeonEndpoint {
   proxy_host: string;
   suspend_timeout_seconds: number;
   provisioner: string;
+  // When the compute last ran, missing when it never started
+  last_active?: string;
 }
 
 export interface NeonOperation {
@@ -98,13 +102,34 @@ export interface ConnectionUri {
   connection_parameters: ConnectionParameters;
 }
 
+export interface GetBranchResponse {
+  branch: NeonBranch;
+}
+
+// Cursor pagination returned by list endpoints, `next` is absent on the last page
+export interface NeonPagination {
+  next?: string;
+  prev?: string;
+  sort_by?: string;
+  sort_order?: string;
+}
+
+// Key-value metadata attached to a branch, keyed by branch id in list
+// responses
+export interface NeonAnnotation {
+  object: {
+    type: string;
+    id: string;
+  };
+  value: Record<string, string>;
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface ListBranchesResponse {
   branches: NeonBranch[];
-  annotations: Record<string, any>;
-  pagination: {
-    sort_by: string;
-    sort_order: string;
-  };
+  annotations: Record<string, NeonAnnotation>;
+  pagination?: NeonPagination;
 }
 
 export interface CreateBranchResponse {
@@ -116,16 +141,98 @@ export interface CreateBranchResponse {
   connection_uris: ConnectionUri[];
 }
 
+export interface UpdateBranchRequest {
+  branch: {
+    name?: string;
+    protected?: boolean;
+    expire_at?: string | null;
+  };
+  // Replaces the branch's annotation
+  annotation_value?: Record<string, string>;
+}
+
+export interface UpdateBranchResponse {
+  branch: NeonBranch;
+  operations: NeonOperation[];
+}
+
+// Replaces a branch's data with another branch's, e.g. its parent's to
+// reset it. The branch keeps its id and endpoints, so its connection
+// strings stay the same.
+export interface RestoreBranchRequest {
+  source_branch_id: string;
+  source_lsn?: string;
+  source_timestamp?: string;
+  // Keeps the state before the restore as a branch with this name
+  preserve_under_name?: string;
+}
+
+export interface RestoreBranchResponse {
+  branch: NeonBranch;
+  operations: NeonOperation[];
+}
+
+export interface DeleteBranchResponse {
+  branch: NeonBranch;
+  operations: NeonOperation[];
+}
+
+export interface ListEndpointsResponse {
+  endpoints: NeonEndpoint[];
+}
+
+export interface GetEndpointResponse {
+  endpoint: NeonEndpoint;
+}
+
+export interface ListOperationsResponse {
+  operations: NeonOperation[];
+  pagination?: NeonPagination;
+}
+
+export interface GetOperationResponse {
+  operation: NeonOperation;
+}
+
+export interface ListRolesResponse {
+  roles: NeonRole[];
+}
+
+export interface RevealRolePasswordResponse {
+  password: string;
+}
+
+export interface ListDatabasesResponse {
+  databases: NeonDatabase[];
+}
+
+export interface GetConnectionUriResponse {
+  uri: string;
+}
+
+// Settings that are left out fall back to the project's defaults
+export interface CreateEndpointSpec {
+  type: "read_write" | "read_only";
+  pooler_enabled?: boolean;
+  autoscaling_limit_min_cu?: number;
+  autoscaling_limit_max_cu?: number;
+  suspend_timeout_seconds?: number;
+}
+
 export interface CreateBranchRequest {
-  endpoints: Array<{
-    type: "read_write" | "read_only";
-    pooler_enabled?: boolean;
-  }>;
+  endpoints: CreateEndpointSpec[];
   branch: {
     parent_id: string;
     name?: string;
     expire_at?: string;
+    // Branch from a point in the parent's history instead of its head,
+    // at most one of the two
+    parent_lsn?: string;
+    parent_timestamp?: string;
+    // Defaults to "parent-data"
+    init_source?: "parent-data" | "schema-only";
   };
+  annotation_value?: Record<string, string>;
 }
 
 // Snapshot-related types
@@ -156,6 +263,7 @@ export interface CreateSnapshotResponse {
 
 export interface ListSnapshotsResponse {
   snapshots: NeonSnapshot[];
+  pagination?: NeonPagination;
 }
 
 export interface RestoreSnapshotRequest {
@@ -170,9 +278,14 @@ export interface RestoreSnapshotResponse {
   operations: NeonOperation[];
 }
 
+export interface DeleteSnapshotResponse {
+  snapshot: NeonSnapshot;
+  operations: NeonOperation[];
+}
+
 // API error response type
 export interface NeonApiError {
   message: string;
   code?: string;
-  details?: any;
+  details?: unknown;
 }
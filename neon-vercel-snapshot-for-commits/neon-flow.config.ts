@@ -0,0 +1,28 @@
+import { defineConfig } from "../neon-flow/src/config";
+
+// Branch conventions for the neon-flow CLI. Every setting is optional and
+// falls back to the default shown here, see ../neon-flow/README.md.
+export default defineConfig({
+  branches: {
+    production: ["production", "main"],
+  },
+  ttl: {
+    testDays: 14,
+    snapshotMonths: 4,
+  },
+  snapshots: {
+    prefix: "prod-",
+    testBranchPrefix: "test-",
+  },
+  masking: {
+    // Test branches are restored from production snapshots, so their
+    // contacts are real customers
+    tables: {
+      contacts: { name: "name", email: "email", tel: "phone" },
+    },
+  },
+  seed: {
+    // Profile and --seed can be passed as arguments, see scripts/seed.ts
+    command: "bun run db:seed",
+  },
+});
@@ -0,0 +1,13 @@
+#!/usr/bin/env bun
+
+// Replaces the contacts on the branch DATABASE_URL points at with a seed
+// profile: bun run db:seed [profile] [--seed <number>]
+
+import { runSeedScript } from "../../neon-flow/src/seed-script";
+import { seedContacts } from "../src/lib/db/seed";
+
+runSeedScript(async (profile, seed) => {
+  // db.ts connects on import, so only load it once DATABASE_URL is checked
+  const { db } = await import("../src/lib/db/db");
+  return seedContacts(db, profile, seed);
+});
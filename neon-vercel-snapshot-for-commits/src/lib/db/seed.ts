@@ -0,0 +1,35 @@
+import {
+  DEFAULT_SEED,
+  generateContacts,
+  type SeedProfileName,
+} from "../../../../neon-flow/src/seed-contacts";
+import { contactsTable } from "./schema";
+import type { db as database } from "./db";
+
+// The generators and profiles are shared by the example apps, see
+// neon-flow/src/seed-contacts.ts
+export type NewContact = typeof contactsTable.$inferInsert;
+
+// Stays well below Postgres' limit of 65,535 parameters per query
+const INSERT_BATCH_SIZE = 500;
+
+// Replaces every contact with a profile's rows. The delete and inserts run
+// as one batch, which neon-http sends as a single transaction.
+export async function seedContacts(
+  db: typeof database,
+  profile: SeedProfileName,
+  seed = DEFAULT_SEED,
+): Promise<number> {
+  const contacts: NewContact[] = generateContacts(profile, seed);
+  const inserts = [];
+  for (let start = 0; start < contacts.length; start += INSERT_BATCH_SIZE) {
+    inserts.push(
+      db
+        .insert(contactsTable)
+        .values(contacts.slice(start, start + INSERT_BATCH_SIZE)),
+    );
+  }
+
+  await db.batch([db.delete(contactsTable), ...inserts]);
+  return contacts.length;
+}